@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ClockProvider } from "@/registry/new-york/ui/date-range-picker";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -28,7 +29,8 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        {/* Server and client start from the same reference date */}
+        <ClockProvider initialNow={new Date()}>{children}</ClockProvider>
       </body>
     </html>
   );
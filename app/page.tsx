@@ -14,9 +14,11 @@ import {
 } from "@/components/ui/card";
 import {
   DateRangePicker,
+  DateRangeValue,
   PredefinedRange,
+  resolveDateRangeValue,
+  useNow,
 } from "@/registry/new-york/ui/date-range-picker";
-import { DateRange } from "react-day-picker";
 import { Github } from "lucide-react";
 import {
   subDays,
@@ -28,42 +30,55 @@ import {
 } from "date-fns";
 
 export default function Home() {
-  const [basicRange, setBasicRange] = useState<DateRange | undefined>();
-  const [customRange, setCustomRange] = useState<DateRange | undefined>();
-  const [limitedRange, setLimitedRange] = useState<DateRange | undefined>();
-  const [compactRange, setCompactRange] = useState<DateRange | undefined>();
+  const now = useNow();
+  const [basicRange, setBasicRange] = useState<DateRangeValue | undefined>();
+  const [customRange, setCustomRange] = useState<DateRangeValue | undefined>();
+  const [limitedRange, setLimitedRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [compactRange, setCompactRange] = useState<
+    DateRangeValue | undefined
+  >();
 
   // Custom predefined ranges for business scenarios
   const customPredefinedRanges: PredefinedRange[] = [
     {
+      id: "this-week",
       label: "This Week",
-      value: {
-        from: startOfWeek(new Date(), { weekStartsOn: 1 }),
-        to: endOfWeek(new Date(), { weekStartsOn: 1 }),
-      },
+      resolve: (now) => ({
+        from: startOfWeek(now, { weekStartsOn: 1 }),
+        to: endOfWeek(now, { weekStartsOn: 1 }),
+      }),
       description: "Select the current week (Monday to Sunday)",
     },
     {
+      id: "last-week",
       label: "Last Week",
-      value: {
-        from: startOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }),
-        to: endOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }),
-      },
+      resolve: (now) => ({
+        from: startOfWeek(subDays(now, 7), { weekStartsOn: 1 }),
+        to: endOfWeek(subDays(now, 7), { weekStartsOn: 1 }),
+      }),
       description: "Select the previous week",
     },
     {
+      id: "last-90-days",
       label: "Last 90 Days",
-      value: { from: subDays(new Date(), 89), to: new Date() },
+      resolve: (now) => ({ from: subDays(now, 89), to: now }),
       description: "Select the last 90 days",
     },
     {
+      id: "this-year",
       label: "This Year",
-      value: { from: startOfYear(new Date()), to: endOfYear(new Date()) },
+      resolve: (now) => ({ from: startOfYear(now), to: endOfYear(now) }),
       description: "Select the current year",
     },
   ];
 
-  const formatDateRange = (range: DateRange | undefined) => {
+  const formatDateRange = (
+    value: DateRangeValue | undefined,
+    predefinedRanges?: PredefinedRange[]
+  ) => {
+    const range = resolveDateRangeValue(value, predefinedRanges, now);
     if (!range?.from || !range?.to) return "No date selected";
     return `${range.from.toLocaleDateString()} - ${range.to.toLocaleDateString()}`;
   };
@@ -151,7 +166,7 @@ export default function Home() {
                     data-testid="custom-ranges-picker"
                   />
                   <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
-                    {formatDateRange(customRange)}
+                    {formatDateRange(customRange, customPredefinedRanges)}
                   </div>
                 </CardContent>
               </Card>
@@ -168,8 +183,8 @@ export default function Home() {
                   <DateRangePicker
                     value={limitedRange}
                     onChange={setLimitedRange}
-                    minDate={subMonths(new Date(), 6)}
-                    maxDate={new Date()}
+                    minDate={subMonths(now, 6)}
+                    maxDate={now}
                     numberOfMonths={1}
                     placeholder="Select within last 6 months..."
                     buttonWidth="w-full"
@@ -362,7 +377,8 @@ export default function Home() {
                     Make sure you have the required peer dependencies:
                   </p>
                   <div className="bg-muted p-3 rounded-lg text-sm font-mono">
-                    npm install react-day-picker date-fns lucide-react
+                    npm install react-day-picker date-fns @date-fns/tz
+                    lucide-react
                   </div>
                 </div>
               </CardContent>
@@ -380,12 +396,14 @@ export default function Home() {
                 <div>
                   <h3 className="font-semibold mb-2">Basic Usage</h3>
                   <div className="bg-muted p-3 rounded-lg text-sm font-mono overflow-x-auto">
-                    <pre>{`import { DateRangePicker } from "@/components/ui/date-range-picker";
-import { DateRange } from "react-day-picker";
+                    <pre>{`import {
+  DateRangePicker,
+  DateRangeValue,
+} from "@/components/ui/date-range-picker";
 import { useState } from "react";
 
 function MyComponent() {
-  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [dateRange, setDateRange] = useState<DateRangeValue | undefined>();
 
   return (
     <DateRangePicker
@@ -407,16 +425,18 @@ import { subDays, startOfWeek, endOfWeek } from "date-fns";
 
 const customRanges = [
   {
+    id: "last-7-days",
     label: "Last 7 days",
-    value: { from: subDays(new Date(), 6), to: new Date() },
+    resolve: (now) => ({ from: subDays(now, 6), to: now }),
     description: "Select the last 7 days"
   },
   {
+    id: "this-week",
     label: "This Week",
-    value: {
-      from: startOfWeek(new Date(), { weekStartsOn: 1 }),
-      to: endOfWeek(new Date(), { weekStartsOn: 1 })
-    },
+    resolve: (now) => ({
+      from: startOfWeek(now, { weekStartsOn: 1 }),
+      to: endOfWeek(now, { weekStartsOn: 1 })
+    }),
     description: "Select the current week"
   }
 ];
@@ -436,20 +456,27 @@ const customRanges = [
                 <div>
                   <h3 className="font-semibold mb-2">TypeScript Types</h3>
                   <div className="bg-muted p-3 rounded-lg text-sm font-mono overflow-x-auto">
-                    <pre>{`import { DateRange } from "react-day-picker";
-import { PredefinedRange } from "@/components/ui/date-range-picker";
+                    <pre>{`import {
+  DateRangeValue,
+  PredefinedRange,
+  resolveDateRangeValue,
+} from "@/components/ui/date-range-picker";
 
-// Component state
-const [dateRange, setDateRange] = useState<DateRange | undefined>();
+// Component state: { kind: "relative", presetId } or { kind: "absolute", range }
+const [dateRange, setDateRange] = useState<DateRangeValue | undefined>();
 
 // Custom ranges with proper typing
 const ranges: PredefinedRange[] = [
   {
+    id: "last-30-days",
     label: "Last 30 days",
-    value: { from: subDays(new Date(), 29), to: new Date() },
+    resolve: (now) => ({ from: subDays(now, 29), to: now }),
     description?: "Optional description"
   }
-];`}</pre>
+];
+
+// Resolve to concrete dates whenever the value is read
+const range = resolveDateRangeValue(dateRange, ranges);`}</pre>
                   </div>
                 </div>
               </CardContent>
@@ -36,8 +36,10 @@ function Calendar({
       )}
       captionLayout={captionLayout}
       formatters={{
-        formatMonthDropdown: (date) =>
-          date.toLocaleString("default", { month: "short" }),
+        formatMonthDropdown: (date, dateLib) =>
+          dateLib
+            ? dateLib.format(date, "LLL")
+            : date.toLocaleString(props.locale?.code, { month: "short" }),
         ...formatters,
       }}
       classNames={{
@@ -1,12 +1,37 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useActionState, useRef, useState } from "react";
 import {
+  countBusinessDays,
+  DateRange,
   DateRangePicker,
+  DateRangeComparison,
+  DateRangeConstraints,
+  DateRangeFormatContext,
+  DateRangeGranularity,
+  DateRangePickerHandle,
+  DateRangePickerLabels,
+  DateRangeValue,
+  defaultPredefinedRanges,
+  FiscalCalendar,
+  formatInTimeZone,
+  formatInterval,
+  getBusinessDayPredefinedRanges,
+  getFiscalPredefinedRanges,
+  holidayCalendars,
   PredefinedRange,
+  resolveComparisonRange,
+  resolveDateRangeValue,
+  useNow,
 } from "@/registry/new-york/ui/date-range-picker";
-import { DateRange } from "react-day-picker";
+import { dateRangeSchema } from "@/registry/new-york/lib/date-range-schema";
 import {
+  useDateRangeSearchParams,
+  writeDateRangeSearchParams,
+} from "@/registry/new-york/hooks/use-date-range-search-params";
+import {
+  format,
+  isSameDay,
   subDays,
   startOfWeek,
   endOfWeek,
@@ -14,6 +39,9 @@ import {
   endOfYear,
   subMonths,
 } from "date-fns";
+import { ar, de } from "date-fns/locale";
+import { CalendarDays } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -23,50 +51,256 @@ import {
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
+// Shared by the form example's picker and its zod schema
+const reportConstraints: DateRangeConstraints = { maxDays: 31 };
+
+// A retail calendar: years start near February 1 with 4-4-5 quarters
+const retailCalendar: FiscalCalendar = {
+  startMonth: 1,
+  weekPattern: "4-4-5",
+  weekStartsOn: 0,
+};
+const fiscalRanges = getFiscalPredefinedRanges(retailCalendar);
+
+// Collapses a shared month and year, e.g. "Jan 1 – 31, 2024"
+const formatCompactRange = (
+  range: DateRange | undefined,
+  { preset, defaultLabel }: DateRangeFormatContext
+) => {
+  if (preset) return preset.label;
+  if (!range?.from || !range.to) return defaultLabel;
+  const { from, to } = range;
+  if (isSameDay(from, to)) return format(from, "MMM d, yyyy");
+  if (from.getFullYear() !== to.getFullYear()) {
+    return `${format(from, "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}`;
+  }
+  if (from.getMonth() !== to.getMonth()) {
+    return `${format(from, "MMM d")} – ${format(to, "MMM d, yyyy")}`;
+  }
+  return `${format(from, "MMM d")} – ${format(to, "d, yyyy")}`;
+};
+
+// Reads and writes ?range=, so the selection survives reloads and Back
+function UrlSyncedPicker() {
+  const [value, setValue] = useDateRangeSearchParams({
+    defaultValue: { kind: "relative", presetId: "last-30-days" },
+    history: "push",
+  });
+
+  return (
+    <div className="space-y-2">
+      <DateRangePicker
+        value={value}
+        onChange={setValue}
+        data-testid="url-picker"
+      />
+      <p className="text-sm text-muted-foreground">
+        URL: ?
+        {decodeURIComponent(writeDateRangeSearchParams("", value).toString())}
+      </p>
+    </div>
+  );
+}
+
+const germanLabels: Partial<DateRangePickerLabels> = {
+  placeholder: "Zeitraum auswählen",
+  dialog: "Zeitraumauswahl",
+  trigger: (rangeLabel) => `Zeitraumauswahl: ${rangeLabel}`,
+  clear: "Zurücksetzen",
+  clearAria: "Auswahl zurücksetzen",
+  apply: "Übernehmen",
+  applyAria: "Auswahl übernehmen",
+  previousMonth: "Zum vorherigen Monat",
+  nextMonth: "Zum nächsten Monat",
+  today: (dayLabel) => `Heute, ${dayLabel}`,
+  selectedDay: (dayLabel) => `${dayLabel}, ausgewählt`,
+};
+
+const arabicLabels: Partial<DateRangePickerLabels> = {
+  placeholder: "اختر نطاقًا زمنيًا",
+  dialog: "منتقي النطاق الزمني",
+  trigger: (rangeLabel) => `منتقي النطاق الزمني: ${rangeLabel}`,
+  clear: "مسح",
+  clearAria: "مسح التحديد",
+  apply: "تطبيق",
+  applyAria: "تطبيق التحديد",
+  previousMonth: "الانتقال إلى الشهر السابق",
+  nextMonth: "الانتقال إلى الشهر التالي",
+  today: (dayLabel) => `اليوم، ${dayLabel}`,
+  selectedDay: (dayLabel) => `${dayLabel}، محدد`,
+};
+
+const persianLabels: Partial<DateRangePickerLabels> = {
+  previousMonth: "رفتن به ماه قبل",
+  nextMonth: "رفتن به ماه بعد",
+  today: (dayLabel) => `امروز، ${dayLabel}`,
+  selectedDay: (dayLabel) => `${dayLabel}، انتخاب‌شده`,
+};
+
 export default function DateRangePickerDemo() {
-  const [basicRange, setBasicRange] = useState<DateRange | undefined>();
-  const [customRange, setCustomRange] = useState<DateRange | undefined>();
-  const [limitedRange, setLimitedRange] = useState<DateRange | undefined>();
-  const [compactRange, setCompactRange] = useState<DateRange | undefined>();
+  const now = useNow();
+  const [basicRange, setBasicRange] = useState<DateRangeValue | undefined>();
+  const [customRange, setCustomRange] = useState<DateRangeValue | undefined>();
+  const [limitedRange, setLimitedRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [compactRange, setCompactRange] = useState<
+    DateRangeValue | undefined
+  >();
   const [rangesOnlyRange, setRangesOnlyRange] = useState<
-    DateRange | undefined
+    DateRangeValue | undefined
+  >();
+  const [dateTimeRange, setDateTimeRange] = useState<
+    DateRangeValue | undefined
   >();
+  const [zonedRange, setZonedRange] = useState<DateRangeValue | undefined>();
+  const [typedRange, setTypedRange] = useState<DateRangeValue | undefined>();
+  const [halfOpenValue, setHalfOpenValue] = useState<
+    DateRangeValue | undefined
+  >();
+  const [halfOpenRange, setHalfOpenRange] = useState<DateRange | undefined>();
+  const [granularity, setGranularity] =
+    useState<DateRangeGranularity>("quarter");
+  const [periodRange, setPeriodRange] = useState<DateRangeValue | undefined>();
+  const [fiscalRange, setFiscalRange] = useState<DateRangeValue | undefined>({
+    kind: "relative",
+    presetId: "this-fiscal-quarter",
+  });
+  const [country, setCountry] = useState<keyof typeof holidayCalendars>("US");
+  const [businessRange, setBusinessRange] = useState<
+    DateRangeValue | undefined
+  >({ kind: "relative", presetId: "last-10-business-days" });
+  const [queryRange, setQueryRange] = useState<DateRangeValue | undefined>();
+  const [auditRange, setAuditRange] = useState<DateRangeValue | undefined>({
+    kind: "absolute",
+    range: { from: subDays(new Date(), 14), to: undefined },
+  });
+  const [comparedRange, setComparedRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [comparison, setComparison] = useState<DateRangeComparison | undefined>(
+    { mode: "previous-period" }
+  );
+  const [spanRange, setSpanRange] = useState<DateRangeValue | undefined>();
+  const [workdayRange, setWorkdayRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [germanRange, setGermanRange] = useState<DateRangeValue | undefined>();
+  const [arabicRange, setArabicRange] = useState<DateRangeValue | undefined>();
+  const [persianRange, setPersianRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [shortRange, setShortRange] = useState<DateRangeValue | undefined>();
+  const [customTriggerRange, setCustomTriggerRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [composedRange, setComposedRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [uncontrolledRange, setUncontrolledRange] = useState<
+    DateRangeValue | undefined
+  >({ kind: "relative", presetId: "last-30-days" });
+  const uncontrolledPicker = useRef<DateRangePickerHandle>(null);
+  const [lifecycleRange, setLifecycleRange] = useState<
+    DateRangeValue | undefined
+  >();
+  const [lifecycleDraft, setLifecycleDraft] = useState<
+    DateRangeValue | undefined
+  >();
+  const [lifecycleEvent, setLifecycleEvent] = useState<string>();
+  // Runs like a server action: reads the picker's fields from FormData
+  const [submittedReport, submitReport] = useActionState(
+    (_previous: string | undefined, formData: FormData) => {
+      const result = dateRangeSchema(reportConstraints).safeParse({
+        from: formData.get("from"),
+        to: formData.get("to"),
+      });
+      return result.success
+        ? `${result.data.from.toISOString()} – ${result.data.to.toISOString()}`
+        : `Rejected: ${result.error.issues[0].message}`;
+    },
+    undefined
+  );
 
   // Custom predefined ranges for business scenarios
   const customPredefinedRanges: PredefinedRange[] = [
     {
+      id: "this-week",
       label: "This Week",
-      value: {
-        from: startOfWeek(new Date(), { weekStartsOn: 1 }),
-        to: endOfWeek(new Date(), { weekStartsOn: 1 }),
-      },
+      resolve: (now) => ({
+        from: startOfWeek(now, { weekStartsOn: 1 }),
+        to: endOfWeek(now, { weekStartsOn: 1 }),
+      }),
       description: "Select the current week (Monday to Sunday)",
     },
     {
+      id: "last-week",
       label: "Last Week",
-      value: {
-        from: startOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }),
-        to: endOfWeek(subDays(new Date(), 7), { weekStartsOn: 1 }),
-      },
+      resolve: (now) => ({
+        from: startOfWeek(subDays(now, 7), { weekStartsOn: 1 }),
+        to: endOfWeek(subDays(now, 7), { weekStartsOn: 1 }),
+      }),
       description: "Select the previous week",
     },
     {
+      id: "last-90-days",
       label: "Last 90 Days",
-      value: { from: subDays(new Date(), 89), to: new Date() },
+      resolve: (now) => ({ from: subDays(now, 89), to: now }),
       description: "Select the last 90 days",
     },
     {
+      id: "this-year",
       label: "This Year",
-      value: { from: startOfYear(new Date()), to: endOfYear(new Date()) },
+      resolve: (now) => ({ from: startOfYear(now), to: endOfYear(now) }),
       description: "Select the current year",
     },
   ];
 
-  const formatDateRange = (range: DateRange | undefined) => {
+  const formatDateRange = (
+    value: DateRangeValue | undefined,
+    predefinedRanges?: PredefinedRange[]
+  ) => {
+    const range = resolveDateRangeValue(value, predefinedRanges, now);
     if (!range?.from || !range?.to) return "No date selected";
     return `${range.from.toLocaleDateString()} - ${range.to.toLocaleDateString()}`;
   };
 
+  const formatBusinessDays = (value: DateRangeValue | undefined) => {
+    const calendar = holidayCalendars[country];
+    const range = resolveDateRangeValue(
+      value,
+      [...defaultPredefinedRanges, ...getBusinessDayPredefinedRanges(calendar)],
+      now
+    );
+    if (!range?.from || !range?.to) return "No date selected";
+    const days = countBusinessDays(range, calendar);
+    return `${range.from.toLocaleDateString()} - ${range.to.toLocaleDateString()} (${days} business days)`;
+  };
+
+  const formatDateTimeRange = (value: DateRangeValue | undefined) => {
+    const range = resolveDateRangeValue(value, undefined, now);
+    if (!range?.from || !range?.to) return "No date selected";
+    return `${range.from.toLocaleString()} - ${range.to.toLocaleString()}`;
+  };
+
+  const formatComparison = (value: DateRangeValue | undefined) => {
+    const range = resolveDateRangeValue(value, undefined, now);
+    const compareRange = resolveComparisonRange(range, comparison);
+    if (!compareRange?.from || !compareRange?.to) return formatDateRange(value);
+    const compareText = `${compareRange.from.toLocaleDateString()} - ${compareRange.to.toLocaleDateString()}`;
+    return `${formatDateRange(value)} vs ${compareText}`;
+  };
+
+  const formatZonedRange = (value: DateRangeValue | undefined) => {
+    const range = resolveDateRangeValue(value, undefined, now);
+    if (!range?.from || !range?.to) return "No date selected";
+    return `${formatInTimeZone(
+      range.from,
+      "LLL dd, y HH:mm",
+      "America/New_York"
+    )} - ${formatInTimeZone(range.to, "LLL dd, y HH:mm", "America/New_York")}`;
+  };
+
   return (
     <div className="w-full min-h-screen">
       {/* Mobile Layout */}
@@ -134,7 +368,7 @@ export default function DateRangePickerDemo() {
                     data-testid="custom-ranges-picker"
                   />
                   <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
-                    {formatDateRange(customRange)}
+                    {formatDateRange(customRange, customPredefinedRanges)}
                   </div>
                 </div>
               </div>
@@ -151,8 +385,8 @@ export default function DateRangePickerDemo() {
                   <DateRangePicker
                     value={limitedRange}
                     onChange={setLimitedRange}
-                    minDate={subMonths(new Date(), 6)}
-                    maxDate={new Date()}
+                    minDate={subMonths(now, 6)}
+                    maxDate={now}
                     numberOfMonths={1}
                     placeholder="Select within last 6 months..."
                     buttonWidth="w-full"
@@ -212,6 +446,320 @@ export default function DateRangePickerDemo() {
                   </div>
                 </div>
               </div>
+
+              {/* Date & Time */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Date & Time</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Minute-precision ranges in business hours.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={dateTimeRange}
+                    onChange={setDateTimeRange}
+                    withTime
+                    timeFormat="12h"
+                    minuteStep={15}
+                    minTime="08:00"
+                    maxTime="20:00"
+                    numberOfMonths={1}
+                    placeholder="Select date and time..."
+                    buttonWidth="w-full"
+                    data-testid="datetime-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateTimeRange(dateTimeRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Time Zones */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Time Zones</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Day boundaries in New York time.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={zonedRange}
+                    onChange={setZonedRange}
+                    timeZone="America/New_York"
+                    showTimeZone
+                    placeholder="Select New York dates..."
+                    buttonWidth="w-full"
+                    data-testid="timezone-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatZonedRange(zonedRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Typed Input */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Typed Input</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Type ranges like &quot;last 2 weeks&quot; or &quot;Q2
+                    2024&quot;.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={typedRange}
+                    onChange={setTypedRange}
+                    editable
+                    placeholder="Type a range, e.g. last 2 weeks"
+                    buttonWidth="w-full"
+                    data-testid="typed-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(typedRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Comparison */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Comparison</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Compare against the previous period or last year.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={comparedRange}
+                    comparison={comparison}
+                    onChange={(value, details) => {
+                      setComparedRange(value);
+                      setComparison(details.comparison);
+                    }}
+                    showComparison
+                    placeholder="Select a period to compare..."
+                    buttonWidth="w-full"
+                    data-testid="comparison-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatComparison(comparedRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Range Length */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Range Length</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Between 7 and 92 days.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={spanRange}
+                    onChange={setSpanRange}
+                    minDays={7}
+                    maxDays={92}
+                    placeholder="Select 7 to 92 days..."
+                    buttonWidth="w-full"
+                    data-testid="span-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(spanRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Blocked Dates */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Blocked Dates</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Weekends are blocked and cannot fall inside the range.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={workdayRange}
+                    onChange={setWorkdayRange}
+                    disabledDates={{ dayOfWeek: [0, 6] }}
+                    allowDisabledInRange={false}
+                    placeholder="Select weekdays..."
+                    buttonWidth="w-full"
+                    data-testid="blocked-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(workdayRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Localized (German) */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Localized (German)</h3>
+                  <p className="text-xs text-muted-foreground">
+                    German formatting, Monday week start and translated labels.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={germanRange}
+                    onChange={setGermanRange}
+                    locale={de}
+                    labels={germanLabels}
+                    showPredefinedRanges={false}
+                    buttonWidth="w-full"
+                    data-testid="german-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(germanRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Right-to-Left (Arabic) */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">
+                    Right-to-Left (Arabic)
+                  </h3>
+                  <p className="text-xs text-muted-foreground">
+                    The Arabic locale switches the picker to right-to-left.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={arabicRange}
+                    onChange={setArabicRange}
+                    locale={ar}
+                    labels={arabicLabels}
+                    showPredefinedRanges={false}
+                    buttonWidth="w-full"
+                    data-testid="arabic-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(arabicRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Persian Calendar */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Persian Calendar</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Solar Hijri month grids and labels; values stay standard
+                    dates.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={persianRange}
+                    onChange={setPersianRange}
+                    calendar="persian"
+                    labels={persianLabels}
+                    buttonWidth="w-full"
+                    data-testid="persian-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(persianRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Compact Format */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Compact Format</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Shared month and year are collapsed: &quot;Jan 1 – 31,
+                    2024&quot;.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={shortRange}
+                    onChange={setShortRange}
+                    formatValue={formatCompactRange}
+                    buttonWidth="w-full"
+                    data-testid="short-format-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(shortRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Custom Trigger */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Custom Trigger</h3>
+                  <p className="text-xs text-muted-foreground">
+                    An icon and a day count instead of the dates.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker
+                    value={customTriggerRange}
+                    onChange={setCustomTriggerRange}
+                    renderTrigger={({ label, days }) => (
+                      <Button
+                        variant="outline"
+                        className="w-fit"
+                        aria-label={`Date range: ${label}`}
+                      >
+                        <CalendarDays className="h-4 w-4" aria-hidden="true" />
+                        {days ? `${days} days` : "Pick dates"}
+                      </Button>
+                    )}
+                    data-testid="custom-trigger-picker"
+                  />
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(customTriggerRange)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Composed Layout */}
+              <div className="space-y-3 p-3 border rounded-lg bg-background">
+                <div className="space-y-1">
+                  <h3 className="font-medium text-sm">Composed Layout</h3>
+                  <p className="text-xs text-muted-foreground">
+                    Presets on the right and a custom footer note.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <DateRangePicker.Root
+                    value={composedRange}
+                    onChange={setComposedRange}
+                    buttonWidth="w-full"
+                    data-testid="composed-picker"
+                  >
+                    <DateRangePicker.Trigger />
+                    <DateRangePicker.Content>
+                      <div className="flex flex-col gap-4 p-4 md:flex-row">
+                        <div className="flex flex-col gap-4">
+                          <DateRangePicker.Calendar numberOfMonths={1} />
+                          <DateRangePicker.Footer>
+                            <p className="text-xs text-muted-foreground">
+                              Ranges are shown in your local time.
+                            </p>
+                          </DateRangePicker.Footer>
+                        </div>
+                        <DateRangePicker.Presets className="md:w-40 md:border-s md:ps-4" />
+                      </div>
+                    </DateRangePicker.Content>
+                  </DateRangePicker.Root>
+                  <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
+                    {formatDateRange(composedRange)}
+                  </div>
+                </div>
+              </div>
             </TabsContent>
 
             <TabsContent value="docs" className="mt-4 space-y-4">
@@ -364,7 +912,8 @@ function MyComponent() {
                 />
                 {customRange && (
                   <p className="text-sm text-muted-foreground">
-                    Selected: {formatDateRange(customRange)}
+                    Selected:{" "}
+                    {formatDateRange(customRange, customPredefinedRanges)}
                   </p>
                 )}
               </CardContent>
@@ -383,8 +932,8 @@ function MyComponent() {
                 <DateRangePicker
                   value={limitedRange}
                   onChange={setLimitedRange}
-                  minDate={subMonths(new Date(), 6)}
-                  maxDate={new Date()}
+                  minDate={subMonths(now, 6)}
+                  maxDate={now}
                   numberOfMonths={1}
                   placeholder="Select within last 6 months..."
                   buttonWidth="w-[280px]"
@@ -454,6 +1003,683 @@ function MyComponent() {
             </CardContent>
           </Card>
 
+          {/* Date & Time Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Date & Time</CardTitle>
+              <CardDescription>
+                Datetime ranges with 12h time inputs, 15 minute steps and
+                business-hour constraints.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={dateTimeRange}
+                onChange={setDateTimeRange}
+                withTime
+                timeFormat="12h"
+                minuteStep={15}
+                minTime="08:00"
+                maxTime="20:00"
+                numberOfMonths={1}
+                placeholder="Select date and time..."
+                data-testid="datetime-picker"
+              />
+              {dateTimeRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateTimeRange(dateTimeRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Time Zones Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Time Zones</CardTitle>
+              <CardDescription>
+                Presets and day boundaries evaluated in America/New_York, with
+                the zone shown in the trigger.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={zonedRange}
+                onChange={setZonedRange}
+                timeZone="America/New_York"
+                showTimeZone
+                placeholder="Select New York dates..."
+                data-testid="timezone-picker"
+              />
+              {zonedRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatZonedRange(zonedRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Normalization Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Half-Open Ranges</CardTitle>
+              <CardDescription>
+                normalization=&quot;half-open&quot; emits midnight on the first
+                day to midnight after the last, ready for a from &lt;= t &lt; to
+                query. Presets, calendar picks and typed input all match.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={halfOpenValue}
+                onChange={(value, { range }) => {
+                  setHalfOpenValue(value);
+                  setHalfOpenRange(range);
+                }}
+                normalization="half-open"
+                data-testid="half-open-picker"
+              />
+              {halfOpenRange?.from && halfOpenRange.to && (
+                <p className="text-sm text-muted-foreground break-all">
+                  {halfOpenRange.from.toISOString()} &lt;= t &lt;{" "}
+                  {halfOpenRange.to.toISOString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Open-Ended Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Open-Ended Ranges</CardTitle>
+              <CardDescription>
+                allowOpenEnded adds Since and Until toggles for audit log
+                filters like &quot;everything since Mar 3&quot;. Typed
+                &quot;since&quot;, &quot;until&quot; and &quot;before&quot;
+                phrases work too.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={auditRange}
+                onChange={setAuditRange}
+                allowOpenEnded
+                editable
+                data-testid="open-ended-picker"
+              />
+              {auditRange?.kind === "absolute" && (
+                <p className="text-sm text-muted-foreground break-all">
+                  Interval: {formatInterval(auditRange.range)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Granularity Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Period Granularity</CardTitle>
+              <CardDescription>
+                granularity picks whole weeks, months, quarters or years. Picks
+                snap to period boundaries and the trigger names the periods.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div
+                className="flex flex-wrap gap-1"
+                role="group"
+                aria-label="Granularity"
+              >
+                {(["week", "month", "quarter", "year"] as const).map((unit) => (
+                  <Button
+                    key={unit}
+                    variant={granularity === unit ? "secondary" : "ghost"}
+                    size="sm"
+                    aria-pressed={granularity === unit}
+                    onClick={() => {
+                      setGranularity(unit);
+                      setPeriodRange(undefined);
+                    }}
+                  >
+                    {unit[0].toUpperCase() + unit.slice(1)}
+                  </Button>
+                ))}
+              </div>
+              <DateRangePicker
+                value={periodRange}
+                onChange={setPeriodRange}
+                granularity={granularity}
+                showPredefinedRanges={false}
+                editable
+                placeholder="Pick periods, e.g. Q1 2024 – Q3 2024"
+                data-testid="granularity-picker"
+              />
+              {periodRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(periodRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Fiscal Calendar Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Fiscal Calendar</CardTitle>
+              <CardDescription>
+                A February fiscal year with 4-4-5 quarters. The fiscal presets
+                and the month grid follow it, and periods read as FY2025.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={fiscalRange}
+                onChange={setFiscalRange}
+                fiscalCalendar={retailCalendar}
+                predefinedRanges={fiscalRanges}
+                granularity="month"
+                data-testid="fiscal-picker"
+              />
+              {fiscalRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(fiscalRange, fiscalRanges)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Business Days Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Business Days</CardTitle>
+              <CardDescription>
+                A holiday calendar greys out public holidays and adds presets
+                counting business days, such as Last 10 Business Days. The
+                bundled calendars list holidays for 2025 through 2028.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div
+                className="flex flex-wrap gap-1"
+                role="group"
+                aria-label="Holiday calendar"
+              >
+                {(["US", "GB", "DE", "FR"] as const).map((code) => (
+                  <Button
+                    key={code}
+                    variant={country === code ? "secondary" : "ghost"}
+                    size="sm"
+                    aria-pressed={country === code}
+                    onClick={() => setCountry(code)}
+                  >
+                    {code}
+                  </Button>
+                ))}
+              </div>
+              <DateRangePicker
+                value={businessRange}
+                onChange={setBusinessRange}
+                holidayCalendar={holidayCalendars[country]}
+                data-testid="business-days-picker"
+              />
+              {businessRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatBusinessDays(businessRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Range Summary Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Range Summary</CardTitle>
+              <CardDescription>
+                The footer counts the days of the draft and follows the hovered
+                day while picking. The footer render prop replaces it, here with
+                an estimated query cost.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={queryRange}
+                onChange={setQueryRange}
+                footer={({ summary }) =>
+                  summary && (
+                    <p className="text-xs text-muted-foreground">
+                      {summary.label}: ~{(summary.days * 1.8).toFixed(1)} GB
+                      scanned
+                    </p>
+                  )
+                }
+                data-testid="summary-picker"
+              />
+              {queryRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(queryRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Typed Input Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Typed Input</CardTitle>
+              <CardDescription>
+                Type strict ranges or phrases like &quot;last 2 weeks&quot;,
+                &quot;since March 3&quot; or &quot;Q2 2024&quot;, and press
+                Enter.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={typedRange}
+                onChange={setTypedRange}
+                editable
+                placeholder="Type a range, e.g. last 2 weeks"
+                data-testid="typed-picker"
+              />
+              {typedRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(typedRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Comparison Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Comparison</CardTitle>
+              <CardDescription>
+                Pick a second range to compare against: the previous period, the
+                same period last year or a custom range.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={comparedRange}
+                comparison={comparison}
+                onChange={(value, details) => {
+                  setComparedRange(value);
+                  setComparison(details.comparison);
+                }}
+                showComparison
+                placeholder="Select a period to compare..."
+                data-testid="comparison-picker"
+              />
+              {comparedRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatComparison(comparedRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Range Length Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Range Length</CardTitle>
+              <CardDescription>
+                Ranges must span at least 7 and at most 92 days. Days that would
+                break the limits are disabled once a start date is picked.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={spanRange}
+                onChange={setSpanRange}
+                minDays={7}
+                maxDays={92}
+                placeholder="Select 7 to 92 days..."
+                data-testid="span-picker"
+              />
+              {spanRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(spanRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Blocked Dates Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Blocked Dates</CardTitle>
+              <CardDescription>
+                Weekends are blocked with a disabledDates matcher, and
+                allowDisabledInRange={false} keeps the range from spanning them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={workdayRange}
+                onChange={setWorkdayRange}
+                disabledDates={{ dayOfWeek: [0, 6] }}
+                allowDisabledInRange={false}
+                placeholder="Select weekdays..."
+                data-testid="blocked-picker"
+              />
+              {workdayRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(workdayRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Localized (German) Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Localized (German)</CardTitle>
+              <CardDescription>
+                The de locale drives month names, formatting and the Monday week
+                start; the labels prop translates the buttons and messages.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={germanRange}
+                onChange={setGermanRange}
+                locale={de}
+                labels={germanLabels}
+                showPredefinedRanges={false}
+                data-testid="german-picker"
+              />
+              {germanRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(germanRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Right-to-Left (Arabic) Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Right-to-Left (Arabic)</CardTitle>
+              <CardDescription>
+                RTL locales such as ar and fa-IR lay out the trigger, calendar
+                and footer right to left; pass dir to override.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={arabicRange}
+                onChange={setArabicRange}
+                locale={ar}
+                labels={arabicLabels}
+                showPredefinedRanges={false}
+                data-testid="arabic-picker"
+              />
+              {arabicRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(arabicRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Persian Calendar Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Persian Calendar</CardTitle>
+              <CardDescription>
+                calendar=&quot;persian&quot; switches the month grid, the This
+                Month / Last Month boundaries and the trigger label to the Solar
+                Hijri calendar. onChange still emits standard dates.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={persianRange}
+                onChange={setPersianRange}
+                calendar="persian"
+                labels={persianLabels}
+                data-testid="persian-picker"
+              />
+              {persianRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(persianRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Compact Format Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Compact Format</CardTitle>
+              <CardDescription>
+                formatValue overrides the trigger text: presets show their label
+                and a shared month and year are collapsed, e.g. &quot;Jan 1 –
+                31, 2024&quot;.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={shortRange}
+                onChange={setShortRange}
+                formatValue={formatCompactRange}
+                data-testid="short-format-picker"
+              />
+              {shortRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(shortRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Custom Trigger Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Custom Trigger</CardTitle>
+              <CardDescription>
+                renderTrigger replaces the trigger button. The popover still
+                wires aria-expanded, aria-haspopup and anchoring onto the
+                rendered element.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={customTriggerRange}
+                onChange={setCustomTriggerRange}
+                renderTrigger={({ label, days }) => (
+                  <Button
+                    variant="outline"
+                    className="w-fit"
+                    aria-label={`Date range: ${label}`}
+                  >
+                    <CalendarDays className="h-4 w-4" aria-hidden="true" />
+                    {days ? `${days} days` : "Pick dates"}
+                  </Button>
+                )}
+                data-testid="custom-trigger-picker"
+              />
+              {customTriggerRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(customTriggerRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Imperative Control Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Imperative Control</CardTitle>
+              <CardDescription>
+                An uncontrolled picker starting from defaultValue. The buttons
+                drive it through its ref without owning its state.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                ref={uncontrolledPicker}
+                defaultValue={{ kind: "relative", presetId: "last-30-days" }}
+                onChange={setUncontrolledRange}
+                data-testid="uncontrolled-picker"
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => uncontrolledPicker.current?.open()}
+                >
+                  Pick dates
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    uncontrolledPicker.current?.setRange({
+                      kind: "relative",
+                      presetId: "last-7-days",
+                    })
+                  }
+                >
+                  Last 7 days
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => uncontrolledPicker.current?.clear()}
+                >
+                  Clear
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {uncontrolledRange
+                  ? `Selected: ${formatDateRange(uncontrolledRange)}`
+                  : "Nothing selected"}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Apply and Cancel Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Apply and Cancel</CardTitle>
+              <CardDescription>
+                Clicking outside keeps the draft for the next open, and the
+                trigger shows a dot until it is applied or cancelled.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker
+                value={lifecycleRange}
+                onChange={setLifecycleRange}
+                onDraftChange={setLifecycleDraft}
+                onApply={() => setLifecycleEvent("Applied")}
+                onCancel={() => setLifecycleEvent("Cancelled")}
+                dismissBehavior="keep"
+                applyOnPredefinedSelect={false}
+                data-testid="lifecycle-picker"
+              />
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>Preview: {formatDateRange(lifecycleDraft)}</p>
+                <p>Applied: {formatDateRange(lifecycleRange)}</p>
+                {lifecycleEvent && <p>Last action: {lifecycleEvent}</p>}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Form Submission Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Form Submission</CardTitle>
+              <CardDescription>
+                startName and endName submit ISO dates with the form, required
+                blocks empty submits and Reset restores the default range. The
+                action validates with dateRangeSchema and the picker&apos;s
+                constraints.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form action={submitReport} className="space-y-4">
+                <DateRangePicker
+                  {...reportConstraints}
+                  defaultValue={{ kind: "relative", presetId: "last-7-days" }}
+                  startName="from"
+                  endName="to"
+                  required
+                  data-testid="form-picker"
+                />
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm">
+                    Run report
+                  </Button>
+                  <Button type="reset" variant="outline" size="sm">
+                    Reset
+                  </Button>
+                </div>
+                {submittedReport && (
+                  <p className="text-sm text-muted-foreground break-all">
+                    {submittedReport}
+                  </p>
+                )}
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* URL Search Params Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>URL Search Params</CardTitle>
+              <CardDescription>
+                useDateRangeSearchParams keeps the range in the URL: presets as
+                their id, other ranges as an ISO 8601 interval. Each change
+                pushes a history entry, so Back restores the previous range.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Suspense>
+                <UrlSyncedPicker />
+              </Suspense>
+            </CardContent>
+          </Card>
+
+          {/* Composed Layout Example */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Composed Layout</CardTitle>
+              <CardDescription>
+                DateRangePicker.Root, .Trigger, .Content, .Presets, .Calendar
+                and .Footer rearranged: presets on the right and extra footer
+                content.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <DateRangePicker.Root
+                value={composedRange}
+                onChange={setComposedRange}
+                data-testid="composed-picker"
+              >
+                <DateRangePicker.Trigger />
+                <DateRangePicker.Content>
+                  <div className="flex flex-col gap-4 p-4 md:flex-row">
+                    <div className="flex flex-col gap-4">
+                      <DateRangePicker.Calendar numberOfMonths={1} />
+                      <DateRangePicker.Footer>
+                        <p className="text-xs text-muted-foreground">
+                          Ranges are shown in your local time.
+                        </p>
+                      </DateRangePicker.Footer>
+                    </div>
+                    <DateRangePicker.Presets className="md:w-40 md:border-s md:ps-4" />
+                  </div>
+                </DateRangePicker.Content>
+              </DateRangePicker.Root>
+              {composedRange && (
+                <p className="text-sm text-muted-foreground">
+                  Selected: {formatDateRange(composedRange)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Configuration Options */}
           <Card>
             <CardHeader>
@@ -533,11 +1759,13 @@ function MyComponent() {
             </CardHeader>
             <CardContent>
               <div className="rounded-lg bg-muted p-4 text-sm font-mono overflow-x-auto">
-                <pre>{`import { DateRangePicker } from "@/components/ui/date-range-picker";
-import { DateRange } from "react-day-picker";
+                <pre>{`import {
+  DateRangePicker,
+  DateRangeValue,
+} from "@/components/ui/date-range-picker";
 
 function MyComponent() {
-  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [dateRange, setDateRange] = useState<DateRangeValue | undefined>();
 
   return (
     <DateRangePicker
@@ -0,0 +1,2614 @@
+"use client";
+
+import * as React from "react";
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  getHours,
+  getMinutes,
+  isSameDay,
+  set,
+  startOfDay,
+  endOfDay,
+  subDays,
+  subMilliseconds,
+  isValid,
+} from "date-fns";
+import type { Locale } from "date-fns";
+import { TZDate } from "@date-fns/tz";
+import {
+  DateLib,
+  DateLibOptions,
+  DateRange,
+  Matcher,
+  Modifiers,
+  addToRange,
+  defaultDateLib,
+} from "react-day-picker";
+import {
+  faIR as persianLocale,
+  getDateLib as getPersianDateLib,
+} from "react-day-picker/persian";
+
+import {
+  Holiday,
+  HolidayCalendar,
+  addBusinessDays,
+  countBusinessDays,
+  getBusinessDayPredefinedRanges,
+  getHoliday,
+  isBusinessDay,
+  parseIcsHolidays,
+} from "@/registry/new-york/lib/business-days";
+import {
+  DateRangeConstraints,
+  DateRangeIssue,
+  getDateRangeIssues,
+  getRangeDays,
+  isDateMatched,
+} from "@/registry/new-york/lib/date-range-constraints";
+import {
+  FormatIntervalOptions,
+  IntervalOptions,
+  formatInterval,
+  parseInterval,
+} from "@/registry/new-york/lib/date-range-interval";
+import {
+  DateRangeValue,
+  PredefinedRange,
+} from "@/registry/new-york/lib/date-range-types";
+import {
+  DateRangeNormalization,
+  NormalizeDateRangeOptions,
+  normalizeDateRange,
+  toInclusiveDateRange,
+} from "@/registry/new-york/lib/normalize-date-range";
+import {
+  FiscalCalendar,
+  FiscalPeriodUnit,
+  FiscalWeekPattern,
+  getFiscalPeriodRange,
+  getFiscalPredefinedRanges,
+  getFiscalQuarter,
+  getFiscalYear,
+} from "@/registry/new-york/lib/fiscal-calendar";
+import { holidayCalendars } from "@/registry/new-york/lib/holiday-calendars";
+import { parseDateRange } from "@/registry/new-york/lib/parse-date-range";
+
+export {
+  addBusinessDays,
+  countBusinessDays,
+  formatInterval,
+  getBusinessDayPredefinedRanges,
+  getFiscalPeriodRange,
+  getFiscalPredefinedRanges,
+  getFiscalQuarter,
+  getFiscalYear,
+  getHoliday,
+  getRangeDays,
+  holidayCalendars,
+  isBusinessDay,
+  normalizeDateRange,
+  parseIcsHolidays,
+  parseInterval,
+};
+export type {
+  DateRangeConstraints,
+  DateRangeNormalization,
+  DateRangeValue,
+  FiscalCalendar,
+  FiscalPeriodUnit,
+  FiscalWeekPattern,
+  FormatIntervalOptions,
+  Holiday,
+  HolidayCalendar,
+  IntervalOptions,
+  NormalizeDateRangeOptions,
+  PredefinedRange,
+};
+
+/**
+ * How the comparison range is derived from the selected range
+ */
+export type ComparisonMode = "previous-period" | "previous-year" | "custom";
+
+/**
+ * Comparison setting. Custom comparisons carry their own range, the other
+ * modes are derived from the selected range whenever it is read.
+ */
+export interface DateRangeComparison {
+  mode: ComparisonMode;
+  /** Comparison range, used when mode is "custom" */
+  range?: DateRange;
+}
+
+/**
+ * Resolved ranges passed to onChange alongside the value
+ */
+export interface DateRangeChangeDetails {
+  /** The value resolved to concrete dates */
+  range: DateRange | undefined;
+  /** The comparison range, when comparison is on */
+  compareRange: DateRange | undefined;
+  /** The comparison setting to persist and pass back as `comparison` */
+  comparison: DateRangeComparison | undefined;
+}
+
+/**
+ * Context passed to a custom `formatValue`
+ */
+export interface DateRangeFormatContext {
+  /** The value being displayed */
+  value: DateRangeValue | undefined;
+  /** The active predefined range, for relative values */
+  preset: PredefinedRange | undefined;
+  /** The picker's date library, for calendar- and locale-aware formatting */
+  dateLib: DateLib;
+  /** The built-in label */
+  defaultLabel: string;
+}
+
+/**
+ * Calendar system for month grids, preset boundaries and formatting
+ */
+export type CalendarSystem = "gregorian" | "persian";
+
+/**
+ * What happens to an unapplied draft when the popover is dismissed by a
+ * click outside, Escape or the trigger: "discard" reverts it, "keep" holds
+ * it for the next open and "apply" commits it when valid
+ */
+export type DismissBehavior = "discard" | "keep" | "apply";
+
+/**
+ * Which end an open-ended range leaves open: "since" ranges have only a
+ * start, "until" ranges only an end
+ */
+export type OpenEndedMode = "since" | "until";
+
+/**
+ * Unit the picker selects in: days, weeks (calendar rows with week
+ * numbers), or months, quarters and years from a grid
+ */
+export type DateRangeGranularity =
+  "day" | "week" | "month" | "quarter" | "year";
+
+/**
+ * A cell of the month, quarter or year grid
+ */
+export interface DateRangePeriod {
+  from: Date;
+  to: Date;
+  /** Cell text, e.g. "Jan", "Q1" or "2024" */
+  label: string;
+}
+
+/**
+ * One page of the period grid: a year of months or quarters, or a block of
+ * twelve years
+ */
+export interface DateRangePeriodPage {
+  /** Page heading, e.g. "2024" or "2016 – 2027" */
+  label: string;
+  periods: DateRangePeriod[];
+  /** Dates to pass back for the adjacent pages; undefined past the bounds */
+  previous: Date | undefined;
+  next: Date | undefined;
+}
+
+/**
+ * Day counts of the draft for the footer, following the hovered or focused
+ * day while the end is pending
+ */
+export interface DateRangeSummary {
+  /** The summarized range: the draft, or the range the next pick would make */
+  range: { from: Date; to: Date };
+  /** Whether `range` previews a pick rather than the draft */
+  isPreview: boolean;
+  /** Calendar days, inclusive of both ends */
+  days: number;
+  /** Days that are neither weekend days nor holidays, inclusive */
+  businessDays: number;
+  /** Start and end, e.g. "Mar 3 → Apr 2" */
+  label: string;
+}
+
+/**
+ * Clock format used by the time inputs
+ */
+export type TimeFormat = "12h" | "24h";
+
+/**
+ * Visible and accessible strings used by the picker
+ */
+export interface DateRangePickerLabels {
+  /** Trigger text when no range is selected */
+  placeholder: string;
+  /** Accessible name of the popover */
+  dialog: string;
+  /** Accessible name of the trigger button */
+  trigger: (rangeLabel: string, compareLabel?: string) => string;
+  /** Accessible name of the calendar button next to the typed input */
+  openCalendar: string;
+  /** Accessible name of the typed input */
+  typedInput: string;
+  /** Heading above the predefined ranges */
+  quickSelect: string;
+  /** Placeholder of the mobile predefined range select */
+  quickSelectPlaceholder: string;
+  /** Accessible name of the mobile predefined range select */
+  quickSelectAria: string;
+  /** Accessible name of a predefined range without a description */
+  selectPreset: (presetLabel: string) => string;
+  /** Accessible name of a predefined range that breaks the constraints */
+  presetUnavailable: (presetLabel: string) => string;
+  /** Shown when both the calendar and the predefined ranges are hidden */
+  noContent: string;
+  clear: string;
+  clearAria: string;
+  cancel: string;
+  cancelAria: string;
+  apply: string;
+  applyAria: string;
+  /** Open-ended range toggles */
+  openEnded: string;
+  since: string;
+  sinceAria: string;
+  until: string;
+  untilAria: string;
+  /** Text of an open-ended range, e.g. "Since Mar 3, 2024" */
+  sinceDate: (dateLabel: string) => string;
+  untilDate: (dateLabel: string) => string;
+  /** Period names, e.g. "Q1", "W05" and "FY2025" */
+  quarter: (quarter: number) => string;
+  week: (week: number) => string;
+  fiscalYear: (year: number) => string;
+  /** Period grid navigation */
+  previousPeriods: string;
+  nextPeriods: string;
+  /** Calendar month navigation */
+  previousMonth: string;
+  nextMonth: string;
+  /** Day button names, e.g. "Today, Sunday, March 3rd, 2024, selected" */
+  today: (dayLabel: string) => string;
+  selectedDay: (dayLabel: string) => string;
+  /** Appended to the trigger's accessible name while a draft is unapplied */
+  unappliedChanges: string;
+  /** Footer summary, e.g. "Mar 3 → Apr 2", "31 days" and "22 business days" */
+  summaryRange: (startLabel: string, endLabel: string) => string;
+  dayCount: (days: number) => string;
+  businessDayCount: (days: number) => string;
+  /** Time input labels */
+  start: string;
+  end: string;
+  time: (edgeLabel: string) => string;
+  hour: (edgeLabel: string) => string;
+  minute: (edgeLabel: string) => string;
+  period: (edgeLabel: string) => string;
+  /** Comparison controls */
+  compare: string;
+  comparisonMode: string;
+  previousPeriod: string;
+  previousYear: string;
+  customComparison: string;
+  editingTarget: string;
+  editRange: string;
+  editComparison: string;
+  /** Prefix for the comparison range, e.g. "vs Mar 1 - 7, 2024" */
+  versus: (compareLabel: string) => string;
+  /** Validation messages */
+  unrecognizedRange: string;
+  outsideSelectableDates: string;
+  minDaysError: (minDays: number, selectedDays: number) => string;
+  maxDaysError: (maxDays: number, selectedDays: number) => string;
+  unavailableDatesError: string;
+}
+
+/**
+ * Default English labels; override any subset through the `labels` prop
+ */
+export const defaultDateRangePickerLabels: DateRangePickerLabels = {
+  placeholder: "Select date range",
+  dialog: "Date range picker",
+  trigger: (rangeLabel, compareLabel) =>
+    `Date range picker: ${rangeLabel}${
+      compareLabel ? `, compared to ${compareLabel}` : ""
+    }`,
+  openCalendar: "Open date range picker",
+  typedInput: "Type a date range",
+  quickSelect: "Quick Select",
+  quickSelectPlaceholder: "Quick select range",
+  quickSelectAria: "Quick select date range",
+  selectPreset: (presetLabel) => `Select ${presetLabel}`,
+  presetUnavailable: (presetLabel) => `${presetLabel} (unavailable)`,
+  noContent: "No content to display",
+  clear: "Clear",
+  clearAria: "Clear date range selection",
+  cancel: "Cancel",
+  cancelAria: "Discard changes and close",
+  apply: "Apply",
+  applyAria: "Apply date range selection",
+  openEnded: "Open-ended range",
+  since: "Since",
+  sinceAria: "Select everything since a date",
+  until: "Until",
+  untilAria: "Select everything until a date",
+  sinceDate: (dateLabel) => `Since ${dateLabel}`,
+  untilDate: (dateLabel) => `Until ${dateLabel}`,
+  quarter: (quarter) => `Q${quarter}`,
+  week: (week) => `W${String(week).padStart(2, "0")}`,
+  fiscalYear: (year) => `FY${year}`,
+  previousPeriods: "Show earlier periods",
+  nextPeriods: "Show later periods",
+  previousMonth: "Go to the Previous Month",
+  nextMonth: "Go to the Next Month",
+  today: (dayLabel) => `Today, ${dayLabel}`,
+  selectedDay: (dayLabel) => `${dayLabel}, selected`,
+  unappliedChanges: "unapplied changes",
+  summaryRange: (startLabel, endLabel) => `${startLabel} → ${endLabel}`,
+  dayCount: (days) => (days === 1 ? "1 day" : `${days} days`),
+  businessDayCount: (days) =>
+    days === 1 ? "1 business day" : `${days} business days`,
+  start: "Start",
+  end: "End",
+  time: (edgeLabel) => `${edgeLabel} time`,
+  hour: (edgeLabel) => `${edgeLabel} hour`,
+  minute: (edgeLabel) => `${edgeLabel} minute`,
+  period: (edgeLabel) => `${edgeLabel} period`,
+  compare: "Compare",
+  comparisonMode: "Comparison period",
+  previousPeriod: "Previous period",
+  previousYear: "Same period last year",
+  customComparison: "Custom",
+  editingTarget: "Range edited by the calendar",
+  editRange: "Range",
+  editComparison: "Comparison",
+  versus: (compareLabel) => `vs ${compareLabel}`,
+  unrecognizedRange: "Unrecognized date range",
+  outsideSelectableDates: "Outside the selectable dates",
+  minDaysError: (minDays, selectedDays) =>
+    `Select at least ${minDays} days (${selectedDays} selected)`,
+  maxDaysError: (maxDays, selectedDays) =>
+    `Select at most ${maxDays} days (${selectedDays} selected)`,
+  unavailableDatesError: "The range includes unavailable dates",
+};
+
+/**
+ * Where the user is in picking a range:
+ * - "idle": the draft matches the committed value
+ * - "selecting-start": the draft is empty and waits for a start date
+ * - "selecting-end": a start date is picked in the calendar, the end is pending
+ * - "dirty": the draft holds changes that are not applied yet
+ */
+export type DateRangePickerStatus =
+  "idle" | "selecting-start" | "selecting-end" | "dirty";
+
+/**
+ * Options for useDateRangePicker
+ */
+export interface UseDateRangePickerOptions extends DateRangeConstraints {
+  /**
+   * Currently selected value. Passing it, even as undefined, makes the
+   * picker controlled; leave it out for uncontrolled use.
+   */
+  value?: DateRangeValue;
+  /** Initially selected value when uncontrolled */
+  defaultValue?: DateRangeValue;
+  /** Callback when the committed value changes */
+  onChange?: (
+    value: DateRangeValue | undefined,
+    details: DateRangeChangeDetails
+  ) => void;
+  /** Callback on every draft change while picking, e.g. for a live preview */
+  onDraftChange?: (
+    draft: DateRangeValue | undefined,
+    details: DateRangeChangeDetails
+  ) => void;
+  /** Callback when the user applies a draft, after onChange */
+  onApply?: (
+    value: DateRangeValue | undefined,
+    details: DateRangeChangeDetails
+  ) => void;
+  /** Callback when the popover closes without applying the draft */
+  onCancel?: () => void;
+  /** What a click outside, Escape or the trigger does with a draft */
+  dismissBehavior?: DismissBehavior;
+  /** Whether the popover is open; leave undefined for uncontrolled use */
+  open?: boolean;
+  /** Whether the popover starts open when uncontrolled */
+  defaultOpen?: boolean;
+  /** Callback when the popover opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Placeholder text when no range is selected (defaults to `labels.placeholder`) */
+  placeholder?: string;
+  /**
+   * date-fns locale for formatting, month and weekday names, the first day
+   * of the week and the text direction
+   */
+  locale?: Locale;
+  /** First day of the week (0 - Sunday); defaults to the locale's */
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  /** Text direction; defaults to right-to-left for RTL locales */
+  dir?: "ltr" | "rtl";
+  /**
+   * Calendar system. With "persian" the locale defaults to `faIR` from
+   * `react-day-picker/persian`; emitted values remain standard dates.
+   */
+  calendar?: CalendarSystem;
+  /** Translations for the picker's visible and accessible strings */
+  labels?: Partial<DateRangePickerLabels>;
+  /**
+   * Custom predefined date ranges. Defaults to the built-in presets, plus
+   * the fiscal ones with a `fiscalCalendar` and the business-day ones with
+   * a `holidayCalendar`.
+   */
+  predefinedRanges?: PredefinedRange[];
+  /**
+   * Fiscal calendar for the month, quarter and year granularities, the
+   * fiscal presets and, unless `weekStartsOn` is set, the week start
+   */
+  fiscalCalendar?: FiscalCalendar;
+  /**
+   * Working days and public holidays, e.g. `holidayCalendars.US`. Marks
+   * holidays in the calendar and adds the business-day presets. The bundled
+   * `holidayCalendars` only list 2025 through 2028; other years have no
+   * holidays. Define it outside the component so it keeps its identity
+   * between renders.
+   */
+  holidayCalendar?: HolidayCalendar;
+  /**
+   * Days of the week off (0 - Sunday) for the footer's business-day count;
+   * defaults to the holiday calendar's, or Saturday and Sunday
+   */
+  weekend?: number[];
+  /** Committed comparison setting; undefined when comparison is off */
+  comparison?: DateRangeComparison;
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+  /** Whether to close popover when clearing selection */
+  closeOnClear?: boolean;
+  /** Whether to apply selection immediately when predefined range is selected */
+  applyOnPredefinedSelect?: boolean;
+  /** Whether to clear selection immediately when clear button is clicked */
+  clearOnSelect?: boolean;
+  /** Maximum selectable date (defaults to the current date) */
+  maxDate?: Date;
+  /**
+   * Reference date for presets, the default month and calendar bounds.
+   * Defaults to the surrounding ClockProvider, or the current date.
+   */
+  now?: Date;
+  /**
+   * IANA time zone for presets, calendar day boundaries, min/max checks and
+   * emitted dates, e.g. "America/New_York". Defaults to the local zone.
+   */
+  timeZone?: string;
+  /** Whether to show the time zone abbreviation in the trigger */
+  showTimeZone?: boolean;
+  /**
+   * How emitted ranges end: "inclusive-day" (the default) runs from 00:00
+   * on the first day to 23:59:59.999 on the last, "half-open" to 00:00
+   * after the last day, and "raw" keeps ranges as picked or resolved.
+   * Applies to presets, calendar picks, typed input and `setRange`, but not
+   * to ranges with a time of day.
+   */
+  normalization?: DateRangeNormalization;
+  /**
+   * Whether ranges may leave one end open, e.g. "Since Mar 3, 2024". Adds
+   * Since/Until toggles; the committed range then lacks `to` or `from`.
+   */
+  allowOpenEnded?: boolean;
+  /**
+   * Unit of selection (defaults to "day"). Coarser units pick whole weeks,
+   * months, quarters or years, snap typed ranges to them and label the
+   * trigger per period, e.g. "Q1 2024 – Q3 2024" or "W05–W09 2024".
+   */
+  granularity?: DateRangeGranularity;
+  /** Whether to select a time of day alongside each date */
+  withTime?: boolean;
+  /** Clock format for the time inputs */
+  timeFormat?: TimeFormat;
+  /** Minute granularity of the time inputs */
+  minuteStep?: number;
+  /** Earliest selectable time of day, as "HH:mm" */
+  minTime?: string;
+  /** Latest selectable time of day, as "HH:mm" */
+  maxTime?: string;
+  /**
+   * Custom trigger text, e.g. collapsing a shared month and year. Also used
+   * for the trigger's accessible name.
+   */
+  formatValue?: (
+    range: DateRange | undefined,
+    context: DateRangeFormatContext
+  ) => string;
+  /**
+   * Form field name. Submits the committed range as an ISO 8601 interval,
+   * e.g. "2024-01-01T00:00:00.000Z/2024-01-31T23:59:59.999Z".
+   */
+  name?: string;
+  /** Form field name for the start as an ISO 8601 date-time */
+  startName?: string;
+  /** Form field name for the end as an ISO 8601 date-time */
+  endName?: string;
+  /** Whether the form needs a range before it can be submitted */
+  required?: boolean;
+  /** id of the form the fields belong to, when rendered outside it */
+  form?: string;
+}
+
+/**
+ * Imperative controls for driving the picker from other components, e.g. a
+ * keyboard shortcut or an empty-state "Pick dates" button
+ */
+export interface DateRangePickerHandle {
+  /** Opens the popover */
+  open: () => void;
+  /** Closes the popover like a click outside, following `dismissBehavior` */
+  close: () => void;
+  /** Clears the committed value and calls onChange */
+  clear: () => void;
+  /** Moves focus to the trigger */
+  focus: () => void;
+  /**
+   * Commits a range, or a value such as a relative preset, and calls
+   * onChange. Bypasses the picker's validation; plain ranges are snapped to
+   * the granularity and normalized like calendar picks, values are taken as
+   * they are.
+   */
+  setRange: (range: DateRange | DateRangeValue | undefined) => void;
+}
+
+/**
+ * Default predefined date ranges
+ */
+export const defaultPredefinedRanges: PredefinedRange[] = [
+  {
+    id: "today",
+    label: "Today",
+    resolve: (now) => ({ from: startOfDay(now), to: endOfDay(now) }),
+    description: "Select today's date",
+  },
+  {
+    id: "yesterday",
+    label: "Yesterday",
+    resolve: (now) => ({
+      from: startOfDay(subDays(now, 1)),
+      to: endOfDay(subDays(now, 1)),
+    }),
+    description: "Select yesterday's date",
+  },
+  {
+    id: "last-7-days",
+    label: "Last 7 Days",
+    resolve: (now) => ({ from: subDays(now, 6), to: now }),
+    description: "Select the last 7 days",
+  },
+  {
+    id: "last-30-days",
+    label: "Last 30 Days",
+    resolve: (now) => ({ from: subDays(now, 29), to: now }),
+    description: "Select the last 30 days",
+  },
+  {
+    id: "this-month",
+    label: "This Month",
+    resolve: (now, { startOfMonth, endOfMonth }) => ({
+      from: startOfMonth(now),
+      to: endOfMonth(now),
+    }),
+    description: "Select the current month",
+  },
+  {
+    id: "last-month",
+    label: "Last Month",
+    resolve: (now, { addMonths, startOfMonth, endOfMonth }) => ({
+      from: startOfMonth(addMonths(now, -1)),
+      to: endOfMonth(addMonths(now, -1)),
+    }),
+    description: "Select the previous month",
+  },
+];
+
+/**
+ * Resolves a picker value to concrete dates. Relative values referencing an
+ * unknown preset resolve to undefined.
+ */
+export function resolveDateRangeValue(
+  value: DateRangeValue | undefined,
+  predefinedRanges: PredefinedRange[] = defaultPredefinedRanges,
+  now: Date = new Date(),
+  dateLib: DateLib = defaultDateLib
+): DateRange | undefined {
+  if (!value) return undefined;
+  if (value.kind === "absolute") return value.range;
+  return predefinedRanges
+    .find((range) => range.id === value.presetId)
+    ?.resolve(now, dateLib);
+}
+
+/**
+ * Returns which end of a range is open, or undefined for complete and
+ * empty ranges
+ */
+export function getOpenEndedMode(
+  range: DateRange | undefined
+): OpenEndedMode | undefined {
+  if (range?.from && !range.to) return "since";
+  if (range?.to && !range.from) return "until";
+  return undefined;
+}
+
+/**
+ * Returns the period of a granularity containing a date, e.g. its whole
+ * quarter. Periods follow the date library's calendar and week start, and
+ * months, quarters and years the fiscal calendar when given.
+ */
+export function getPeriodRange(
+  date: Date,
+  granularity: DateRangeGranularity,
+  dateLib: DateLib = defaultDateLib,
+  fiscalCalendar?: FiscalCalendar
+): { from: Date; to: Date } {
+  if (fiscalCalendar && granularity !== "day" && granularity !== "week") {
+    return getFiscalPeriodRange(date, granularity, fiscalCalendar);
+  }
+  switch (granularity) {
+    case "day": {
+      // The date library has no endOfDay: the day ends before the next one
+      const from = dateLib.startOfDay(date);
+      return { from, to: subMilliseconds(dateLib.addDays(from, 1), 1) };
+    }
+    case "week":
+      return { from: dateLib.startOfWeek(date), to: dateLib.endOfWeek(date) };
+    case "month":
+      return { from: dateLib.startOfMonth(date), to: dateLib.endOfMonth(date) };
+    case "quarter": {
+      const firstMonth = Math.floor(dateLib.getMonth(date) / 3) * 3;
+      const from = dateLib.startOfMonth(dateLib.setMonth(date, firstMonth));
+      return { from, to: dateLib.endOfMonth(dateLib.addMonths(from, 2)) };
+    }
+    case "year":
+      return { from: dateLib.startOfYear(date), to: dateLib.endOfYear(date) };
+  }
+}
+
+/**
+ * Widens a range to whole periods; missing ends stay missing
+ */
+export function snapDateRange(
+  range: DateRange,
+  granularity: DateRangeGranularity,
+  dateLib: DateLib = defaultDateLib,
+  fiscalCalendar?: FiscalCalendar
+): DateRange {
+  const snap = (date: Date) =>
+    getPeriodRange(date, granularity, dateLib, fiscalCalendar);
+  return {
+    from: range.from && snap(range.from).from,
+    to: range.to && snap(range.to).to,
+  };
+}
+
+/**
+ * Resolves the comparison range for a selected range: the equally long
+ * period right before it, the same dates one year earlier, or a custom range.
+ */
+export function resolveComparisonRange(
+  range: DateRange | undefined,
+  comparison: DateRangeComparison | undefined,
+  dateLib: DateLib = defaultDateLib
+): DateRange | undefined {
+  if (!comparison) return undefined;
+  if (comparison.mode === "custom") return comparison.range;
+  if (!range?.from || !range.to) return undefined;
+  if (comparison.mode === "previous-year") {
+    return {
+      from: dateLib.addYears(range.from, -1),
+      to: dateLib.addYears(range.to, -1),
+    };
+  }
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+  return { from: subDays(range.from, days), to: subDays(range.to, days) };
+}
+
+/**
+ * Props for the ClockProvider component
+ */
+export interface ClockProviderProps {
+  /** Pinned reference date; the clock never advances when set */
+  now?: Date;
+  /**
+   * Reference date for the first render, e.g. the server request time, so
+   * server and client render the same markup before the clock starts
+   */
+  initialNow?: Date;
+  children: React.ReactNode;
+}
+
+/**
+ * Returns the date library for a calendar system. Month and year arithmetic
+ * and formatting follow the calendar; dates remain standard JS dates.
+ */
+export function getCalendarDateLib(
+  calendar: CalendarSystem = "gregorian",
+  options: DateLibOptions = {}
+): DateLib {
+  return calendar === "persian"
+    ? getPersianDateLib({ locale: persianLocale, ...options })
+    : new DateLib(options);
+}
+
+/**
+ * Returns the date in the given IANA time zone, or unchanged without one
+ */
+export function toTimeZone(date: Date, timeZone?: string): Date {
+  return timeZone ? new TZDate(date, timeZone) : date;
+}
+
+/**
+ * Formats a date with a date-fns pattern in the given IANA time zone
+ */
+export function formatInTimeZone(
+  date: Date,
+  pattern: string,
+  timeZone?: string
+): string {
+  return format(toTimeZone(date, timeZone), pattern);
+}
+
+/**
+ * Returns the short name of a time zone at the given date, e.g. "EST"
+ */
+export function getTimeZoneAbbreviation(
+  timeZone: string,
+  date: Date = new Date(),
+  localeCode: string = "en-US"
+): string {
+  return (
+    new Intl.DateTimeFormat(localeCode, { timeZone, timeZoneName: "short" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? timeZone
+  );
+}
+
+const ClockContext = React.createContext<
+  { now: Date; isPinned: boolean } | undefined
+>(undefined);
+
+/**
+ * Returns the pinned date when given, otherwise a clock that starts after
+ * mount and advances at every midnight in the given time zone.
+ */
+const useClock = (
+  pinned?: Date,
+  initialNow?: Date,
+  timeZone?: string
+): Date => {
+  const [current, setCurrent] = React.useState(() => initialNow ?? new Date());
+  const isPinned = pinned !== undefined;
+
+  React.useEffect(() => {
+    if (isPinned) return;
+    let timeout: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const next = new Date();
+      setCurrent(next);
+      const nextMidnight = startOfDay(addDays(toTimeZone(next, timeZone), 1));
+      timeout = setTimeout(tick, nextMidnight.getTime() - next.getTime());
+    };
+    tick();
+    return () => clearTimeout(timeout);
+  }, [isPinned, timeZone]);
+
+  return pinned ?? current;
+};
+
+/**
+ * Provides the reference date to every DateRangePicker below it. Pin `now`
+ * in tests to make presets and calendar bounds deterministic.
+ */
+export function ClockProvider({
+  now,
+  initialNow,
+  children,
+}: ClockProviderProps) {
+  const current = useClock(now, initialNow);
+  const isPinned = now !== undefined;
+  const clock = React.useMemo(
+    () => ({ now: current, isPinned }),
+    [current, isPinned]
+  );
+  return (
+    <ClockContext.Provider value={clock}>{children}</ClockContext.Provider>
+  );
+}
+
+/**
+ * Reads the reference date: the given override, the surrounding
+ * ClockProvider, or a local clock when neither is present. With a time zone
+ * the date is returned in that zone, and a clock that is not pinned advances
+ * at that zone's midnight.
+ */
+export function useNow(now?: Date, timeZone?: string): Date {
+  const clock = React.useContext(ClockContext);
+  // The provider's clock advances at local midnight, so with a time zone a
+  // running clock starts from it and then advances at that zone's midnight
+  const followsContext = clock?.isPinned || !timeZone;
+  const current = useClock(
+    now ?? (followsContext ? clock?.now : undefined),
+    clock?.now,
+    timeZone
+  );
+  return React.useMemo(
+    () => toTimeZone(current, timeZone),
+    [current, timeZone]
+  );
+}
+
+/**
+ * The year a date's week is numbered in: W01 can start in late December,
+ * and the last week can end in January
+ */
+const getWeekYear = (date: Date, dateLib: DateLib): string =>
+  dateLib.format(
+    dateLib.getWeek(date) === 1
+      ? dateLib.endOfWeek(date)
+      : dateLib.startOfWeek(date),
+    "yyyy"
+  );
+
+/**
+ * The middle day of a period, which names week-based fiscal months
+ */
+const getMidpoint = ({ from, to }: { from: Date; to: Date }): Date =>
+  addDays(from, Math.floor(differenceInCalendarDays(to, from) / 2));
+
+/**
+ * Names the period containing a date, e.g. "Jan 2024", "Q1 2024",
+ * "Q1 FY2025" or "W05 2024"
+ */
+const formatPeriod = (
+  date: Date,
+  granularity: Exclude<DateRangeGranularity, "day">,
+  dateLib: DateLib,
+  labels: DateRangePickerLabels,
+  fiscalCalendar: FiscalCalendar | undefined
+): string => {
+  if (fiscalCalendar && granularity !== "week") {
+    const year = labels.fiscalYear(getFiscalYear(date, fiscalCalendar));
+    if (granularity === "year") return year;
+    if (granularity === "quarter") {
+      return `${labels.quarter(getFiscalQuarter(date, fiscalCalendar))} ${year}`;
+    }
+    const month = getFiscalPeriodRange(date, "month", fiscalCalendar);
+    return dateLib.format(getMidpoint(month), "LLL yyyy");
+  }
+  switch (granularity) {
+    case "week":
+      return `${labels.week(dateLib.getWeek(date))} ${getWeekYear(date, dateLib)}`;
+    case "month":
+      return dateLib.format(date, "LLL yyyy");
+    case "quarter": {
+      const quarter = Math.floor(dateLib.getMonth(date) / 3) + 1;
+      return `${labels.quarter(quarter)} ${dateLib.format(date, "yyyy")}`;
+    }
+    case "year":
+      return dateLib.format(date, "yyyy");
+  }
+};
+
+/**
+ * Names the periods a range spans, e.g. "Q1 2024 – Q3 2024", or
+ * "W05–W09 2024" for weeks of one year
+ */
+const formatPeriodRange = (
+  from: Date,
+  to: Date,
+  granularity: Exclude<DateRangeGranularity, "day">,
+  dateLib: DateLib,
+  labels: DateRangePickerLabels,
+  fiscalCalendar: FiscalCalendar | undefined
+): string => {
+  const [fromLabel, toLabel] = [from, to].map((date) =>
+    formatPeriod(date, granularity, dateLib, labels, fiscalCalendar)
+  );
+  if (fromLabel === toLabel) return fromLabel;
+  const weekYear = getWeekYear(from, dateLib);
+  if (granularity === "week" && weekYear === getWeekYear(to, dateLib)) {
+    const fromWeek = labels.week(dateLib.getWeek(from));
+    return `${fromWeek}–${labels.week(dateLib.getWeek(to))} ${weekYear}`;
+  }
+  return `${fromLabel} – ${toLabel}`;
+};
+
+/**
+ * Validates if a date range is complete and valid. Compares full timestamps,
+ * so ranges within a single day are valid when the end time is not earlier.
+ */
+const isValidDateRange = (range: DateRange | undefined): boolean => {
+  if (!range?.from || !range?.to) return false;
+  return isValid(range.from) && isValid(range.to) && range.from <= range.to;
+};
+
+/**
+ * Compares two date ranges for equality
+ */
+const isRangeEqual = (
+  range1: DateRange | undefined,
+  range2: DateRange | undefined
+): boolean => {
+  if (!range1?.from || !range1?.to || !range2?.from || !range2?.to) {
+    return false;
+  }
+
+  return (
+    range1.from.toDateString() === range2.from.toDateString() &&
+    range1.to.toDateString() === range2.to.toDateString()
+  );
+};
+
+/**
+ * Compares two ranges to the millisecond
+ */
+const isSameRange = (
+  range1: DateRange | undefined,
+  range2: DateRange | undefined
+): boolean =>
+  range1?.from?.getTime() === range2?.from?.getTime() &&
+  range1?.to?.getTime() === range2?.to?.getTime();
+
+/**
+ * Compares two picker values; relative values match by preset id
+ */
+const isSameValue = (
+  value1: DateRangeValue | undefined,
+  value2: DateRangeValue | undefined
+): boolean => {
+  if (!value1 || !value2) return value1 === value2;
+  if (value1.kind === "relative") {
+    return value2.kind === "relative" && value1.presetId === value2.presetId;
+  }
+  return value2.kind === "absolute" && isSameRange(value1.range, value2.range);
+};
+
+/**
+ * Compares two comparison settings
+ */
+const isSameComparison = (
+  comparison1: DateRangeComparison | undefined,
+  comparison2: DateRangeComparison | undefined
+): boolean =>
+  comparison1?.mode === comparison2?.mode &&
+  isSameRange(comparison1?.range, comparison2?.range);
+
+/**
+ * Returns the picker's message for a constraint issue
+ */
+const getIssueLabel = (
+  issue: DateRangeIssue,
+  labels: DateRangePickerLabels
+): string => {
+  switch (issue.code) {
+    case "invalid-order":
+      return labels.unrecognizedRange;
+    case "before-min-date":
+    case "after-max-date":
+    case "disabled-endpoint":
+      return labels.outsideSelectableDates;
+    case "too-short":
+      return labels.minDaysError(issue.minDays, issue.days);
+    case "too-long":
+      return labels.maxDaysError(issue.maxDays, issue.days);
+    case "contains-disabled":
+      return labels.unavailableDatesError;
+  }
+};
+
+// Languages written right to left, matched against the locale code
+const RTL_LANGUAGES = ["ar", "fa", "he", "ur", "ckb", "ps", "yi"];
+
+/**
+ * Returns the text direction of a date-fns locale
+ */
+const getLocaleDirection = (locale?: Locale): "ltr" | "rtl" =>
+  locale?.code && RTL_LANGUAGES.includes(locale.code.split("-")[0])
+    ? "rtl"
+    : "ltr";
+
+/**
+ * Finds the nearest blocked day after (step 1) or before (step -1) a date,
+ * scanning at most `limit` days
+ */
+const findBlockedDay = (
+  date: Date,
+  step: 1 | -1,
+  disabledDates: Matcher | Matcher[],
+  limit: number
+): Date | undefined => {
+  for (let offset = 1; offset <= limit; offset++) {
+    const day = addDays(date, offset * step);
+    if (isDateMatched(day, disabledDates)) return day;
+  }
+  return undefined;
+};
+
+// Two years either way covers every range the calendar bounds allow by default
+const BLOCKED_DAY_SCAN_LIMIT = 731;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Converts an "HH:mm" string to minutes since midnight
+ */
+const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Returns the time of day of a date in minutes since midnight
+ */
+export function getTimeOfDay(date: Date): number {
+  return getHours(date) * 60 + getMinutes(date);
+}
+
+/**
+ * Sets the time of day of a date from minutes since midnight
+ */
+const setTimeOfDay = (date: Date, minutesOfDay: number): Date =>
+  set(date, {
+    hours: Math.floor(minutesOfDay / 60),
+    minutes: minutesOfDay % 60,
+    seconds: 0,
+    milliseconds: 0,
+  });
+
+interface PickerState {
+  status: DateRangePickerStatus;
+  open: boolean;
+  draft: DateRangeValue | undefined;
+  draftComparison: DateRangeComparison | undefined;
+  /** Which range calendar clicks edit while picking a custom comparison */
+  editingTarget: "range" | "comparison";
+  /** The open end calendar clicks set, with `allowOpenEnded` */
+  openEnd: OpenEndedMode | undefined;
+}
+
+type PickerEvent =
+  | { type: "open" }
+  | {
+      type: "close";
+      value: DateRangeValue | undefined;
+      comparison: DateRangeComparison | undefined;
+    }
+  | { type: "hide" }
+  | { type: "sync-value"; value: DateRangeValue | undefined }
+  | { type: "sync-comparison"; comparison: DateRangeComparison | undefined }
+  | {
+      type: "select-range";
+      range: DateRange | undefined;
+      status: DateRangePickerStatus;
+    }
+  | { type: "select-preset"; value: DateRangeValue }
+  | { type: "set-time"; range: DateRange }
+  | { type: "clear" }
+  | {
+      type: "set-comparison";
+      comparison: DateRangeComparison | undefined;
+      editingTarget: "range" | "comparison";
+    }
+  | { type: "set-editing-target"; editingTarget: "range" | "comparison" }
+  | { type: "commit"; value: DateRangeValue | undefined; close: boolean }
+  | {
+      type: "set-open-end";
+      openEnd: OpenEndedMode | undefined;
+      range: DateRange | undefined;
+    };
+
+/**
+ * Status of a draft that matches the committed value
+ */
+const getRestingStatus = (
+  draft: DateRangeValue | undefined,
+  open: boolean
+): DateRangePickerStatus => (open && !draft ? "selecting-start" : "idle");
+
+/**
+ * The open end of a value; relative values are complete
+ */
+const getValueOpenEnd = (
+  value: DateRangeValue | undefined
+): OpenEndedMode | undefined =>
+  value?.kind === "absolute" ? getOpenEndedMode(value.range) : undefined;
+
+/**
+ * Status after a calendar pick: one picked day still waits for the end
+ */
+const getPickStatus = (range: DateRange | undefined): DateRangePickerStatus => {
+  if (!range?.from) return "selecting-start";
+  if (!range.to || isSameDay(range.from, range.to)) return "selecting-end";
+  return "dirty";
+};
+
+/**
+ * Keeps a pending pick pending; any other edit makes the draft dirty
+ */
+const getEditStatus = (status: DateRangePickerStatus): DateRangePickerStatus =>
+  status === "selecting-start" || status === "selecting-end" ? status : "dirty";
+
+const pickerReducer = (state: PickerState, event: PickerEvent): PickerState => {
+  switch (event.type) {
+    case "open":
+      // A draft kept from an earlier dismissal stays as it was
+      return {
+        ...state,
+        open: true,
+        status:
+          state.status === "idle"
+            ? getRestingStatus(state.draft, true)
+            : state.status,
+      };
+    case "close":
+      // Closing without applying always discards the draft
+      return {
+        status: "idle",
+        open: false,
+        draft: event.value,
+        draftComparison: event.comparison,
+        editingTarget: "range",
+        openEnd: getValueOpenEnd(event.value),
+      };
+    case "hide":
+      return { ...state, open: false, editingTarget: "range" };
+    case "sync-value":
+      return {
+        ...state,
+        draft: event.value,
+        status: getRestingStatus(event.value, state.open),
+        openEnd: getValueOpenEnd(event.value),
+      };
+    case "sync-comparison":
+      return { ...state, draftComparison: event.comparison };
+    case "select-range":
+      return {
+        ...state,
+        draft: event.range && { kind: "absolute", range: event.range },
+        status: event.status,
+      };
+    case "select-preset":
+      return {
+        ...state,
+        draft: event.value,
+        editingTarget: "range",
+        status: "dirty",
+        openEnd: undefined,
+      };
+    case "set-time":
+      return {
+        ...state,
+        draft: { kind: "absolute", range: event.range },
+        status: getEditStatus(state.status),
+      };
+    case "clear":
+      return { ...state, draft: undefined, status: "selecting-start" };
+    case "set-comparison":
+      return {
+        ...state,
+        draftComparison: event.comparison,
+        editingTarget: event.editingTarget,
+        status: getEditStatus(state.status),
+      };
+    case "set-editing-target":
+      return { ...state, editingTarget: event.editingTarget };
+    case "commit": {
+      const open = state.open && !event.close;
+      return {
+        ...state,
+        open,
+        draft: event.value,
+        editingTarget: open ? state.editingTarget : "range",
+        status: getRestingStatus(event.value, open),
+        openEnd: getValueOpenEnd(event.value),
+      };
+    }
+    case "set-open-end": {
+      // Leaving open-ended mode keeps the one date as a pending start
+      const pickStatus = event.openEnd ? "dirty" : "selecting-end";
+      return {
+        ...state,
+        draft: event.range && { kind: "absolute", range: event.range },
+        editingTarget: "range",
+        status: event.range ? pickStatus : "selecting-start",
+        openEnd: event.openEnd,
+      };
+    }
+  }
+};
+
+/**
+ * Headless date range picker: draft and committed values, apply and clear
+ * semantics, preset matching, validation and prop getters for the trigger,
+ * presets, calendar and footer actions. Render with any design system.
+ */
+export function useDateRangePicker(options: UseDateRangePickerOptions = {}) {
+  const {
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onDraftChange,
+    onApply,
+    onCancel,
+    dismissBehavior = "discard",
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+    placeholder: placeholderProp,
+    locale,
+    weekStartsOn: weekStartsOnProp,
+    dir: dirProp,
+    calendar = "gregorian",
+    labels: labelsProp,
+    predefinedRanges: predefinedRangesProp,
+    fiscalCalendar: fiscalCalendarProp,
+    holidayCalendar,
+    weekend,
+    comparison,
+    disabled = false,
+    closeOnClear = true,
+    applyOnPredefinedSelect = true,
+    clearOnSelect = true,
+    minDate,
+    maxDate: maxDateProp,
+    minDays,
+    maxDays,
+    disabledDates,
+    allowDisabledInRange = true,
+    now: nowProp,
+    timeZone,
+    showTimeZone = false,
+    normalization = "inclusive-day",
+    allowOpenEnded = false,
+    granularity = "day",
+    withTime = false,
+    timeFormat = "24h",
+    minuteStep = 1,
+    minTime,
+    maxTime,
+    formatValue: formatValueProp,
+    name,
+    startName,
+    endName,
+    required = false,
+    form,
+  } = options;
+  const now = useNow(nowProp, timeZone);
+  const maxDate = maxDateProp ?? now;
+  const labels = React.useMemo(
+    () => ({ ...defaultDateRangePickerLabels, ...labelsProp }),
+    [labelsProp]
+  );
+  const placeholder = placeholderProp ?? labels.placeholder;
+  // Keyed on its fields, so an inline object keeps presets and periods
+  const {
+    startMonth: fiscalStartMonth,
+    weekPattern: fiscalWeekPattern,
+    weekStartsOn: fiscalWeekStartsOn,
+  } = fiscalCalendarProp ?? {};
+  const hasFiscalCalendar = !!fiscalCalendarProp;
+  const fiscalCalendar = React.useMemo(
+    () =>
+      hasFiscalCalendar
+        ? {
+            startMonth: fiscalStartMonth,
+            weekPattern: fiscalWeekPattern,
+            weekStartsOn: fiscalWeekStartsOn,
+          }
+        : undefined,
+    [hasFiscalCalendar, fiscalStartMonth, fiscalWeekPattern, fiscalWeekStartsOn]
+  );
+  const weekStartsOn = weekStartsOnProp ?? fiscalWeekStartsOn;
+  const predefinedRanges = React.useMemo(
+    () =>
+      predefinedRangesProp ??
+      (fiscalCalendar || holidayCalendar
+        ? [
+            ...defaultPredefinedRanges,
+            ...(fiscalCalendar
+              ? getFiscalPredefinedRanges(fiscalCalendar)
+              : []),
+            ...(holidayCalendar
+              ? getBusinessDayPredefinedRanges(holidayCalendar)
+              : []),
+          ]
+        : defaultPredefinedRanges),
+    [predefinedRangesProp, fiscalCalendar, holidayCalendar]
+  );
+  // Working days for the footer's count, keyed by value like the fiscal
+  // calendar so an inline `weekend` array keeps the summary stable
+  const weekendKey = weekend?.join(",");
+  const businessCalendar = React.useMemo(
+    (): HolidayCalendar =>
+      weekendKey === undefined
+        ? (holidayCalendar ?? {})
+        : {
+            ...holidayCalendar,
+            weekend: weekendKey ? weekendKey.split(",").map(Number) : [],
+          },
+    [holidayCalendar, weekendKey]
+  );
+  const calendarLocale =
+    locale ?? (calendar === "persian" ? persianLocale : undefined);
+  const dir = dirProp ?? getLocaleDirection(calendarLocale);
+  // Calendar-aware month/year arithmetic and formatting
+  const dateLib = React.useMemo(
+    () =>
+      getCalendarDateLib(calendar, {
+        locale: calendarLocale,
+        weekStartsOn,
+        timeZone,
+      }),
+    [calendar, calendarLocale, weekStartsOn, timeZone]
+  );
+  // Controlled when `value` is passed at mount, even as undefined, so a
+  // parent that resets its state to undefined (e.g. after Clear) shows no value
+  const [isControlled] = React.useState(() => "value" in options);
+  const [uncontrolledValue, setUncontrolledValue] =
+    React.useState(defaultValue);
+  const value = isControlled ? valueProp : uncontrolledValue;
+  const [state, dispatch] = React.useReducer(pickerReducer, {
+    status: "idle",
+    open: openProp ?? defaultOpen,
+    draft: value,
+    draftComparison: comparison,
+    editingTarget: "range",
+    openEnd: getValueOpenEnd(value),
+  });
+  const { status, draft, draftComparison, editingTarget } = state;
+  const open = openProp ?? state.open;
+  const openEnd = allowOpenEnded ? state.openEnd : undefined;
+  const triggerRef = React.useRef<HTMLElement | null>(null);
+
+  // Follow a controlled `open`, including a parent that rejects a change
+  React.useEffect(() => {
+    if (openProp === undefined || openProp === state.open) return;
+    dispatch(
+      openProp ? { type: "open" } : { type: "close", value, comparison }
+    );
+  }, [openProp, state.open, value, comparison]);
+
+  // Sync the draft with external value changes
+  React.useEffect(() => {
+    dispatch({ type: "sync-value", value });
+  }, [value]);
+
+  React.useEffect(() => {
+    dispatch({ type: "sync-comparison", comparison });
+  }, [comparison]);
+
+  const setEditingTarget = React.useCallback(
+    (target: "range" | "comparison") =>
+      dispatch({ type: "set-editing-target", editingTarget: target }),
+    []
+  );
+
+  // Picked times are kept as they are
+  const rangeNormalization = withTime ? "raw" : normalization;
+  const normalizeRange = React.useCallback(
+    (range: DateRange): DateRange =>
+      normalizeDateRange(range, rangeNormalization, { timeZone }),
+    [rangeNormalization, timeZone]
+  );
+
+  // Typed and programmatic ranges widen to whole periods; presets keep
+  // their own bounds
+  const snapRange = React.useCallback(
+    (range: DateRange): DateRange =>
+      granularity === "day"
+        ? range
+        : snapDateRange(
+            {
+              from: range.from && toTimeZone(range.from, timeZone),
+              to: range.to && toTimeZone(range.to, timeZone),
+            },
+            granularity,
+            dateLib,
+            fiscalCalendar
+          ),
+    [granularity, timeZone, dateLib, fiscalCalendar]
+  );
+
+  // Resolve relative values against the configured presets, in the zone.
+  // Ranges come back with inclusive ends, for display and validation.
+  const resolveValue = React.useCallback(
+    (rangeValue: DateRangeValue | undefined): DateRange | undefined => {
+      const range = resolveDateRangeValue(
+        rangeValue,
+        predefinedRanges,
+        now,
+        dateLib
+      );
+      if (!range) return undefined;
+      const zoned = {
+        from: range.from && toTimeZone(range.from, timeZone),
+        to: range.to && toTimeZone(range.to, timeZone),
+      };
+      return toInclusiveDateRange(
+        rangeValue?.kind === "relative" ? normalizeRange(zoned) : zoned,
+        rangeNormalization
+      );
+    },
+    [
+      predefinedRanges,
+      now,
+      timeZone,
+      dateLib,
+      normalizeRange,
+      rangeNormalization,
+    ]
+  );
+
+  const selectedRange = React.useMemo(
+    () => resolveValue(value),
+    [resolveValue, value]
+  );
+
+  const draftRange = React.useMemo(
+    () => resolveValue(draft),
+    [resolveValue, draft]
+  );
+
+  // Time-of-day bounds in minutes since midnight
+  const minMinutes = minTime ? parseTimeOfDay(minTime) : 0;
+  const maxMinutes = maxTime ? parseTimeOfDay(maxTime) : MINUTES_PER_DAY - 1;
+
+  // Validation for date constraints
+  const isDateDisabled = React.useMemo(() => {
+    // Compare whole days in the picker's time zone
+    const minDay = minDate && startOfDay(toTimeZone(minDate, timeZone));
+    const maxDay = maxDate && endOfDay(toTimeZone(maxDate, timeZone));
+    return (date: Date) => {
+      if (minDay && date < minDay) return true;
+      if (maxDay && date > maxDay) return true;
+      if (disabledDates && isDateMatched(date, disabledDates)) return true;
+      return false;
+    };
+  }, [minDate, maxDate, timeZone, disabledDates]);
+
+  // Why a complete range cannot be applied, if it cannot. Date bounds are
+  // left to the calendar, so presets reaching past them stay available.
+  const getRangeError = React.useCallback(
+    (range: DateRange | undefined): string | undefined => {
+      const isOpenEnded = allowOpenEnded && !!getOpenEndedMode(range);
+      if (!range || !(isOpenEnded || (range.from && range.to))) {
+        return undefined;
+      }
+      const [issue] = getDateRangeIssues(
+        range,
+        { minDays, maxDays, disabledDates, allowDisabledInRange },
+        timeZone
+      );
+      return issue && getIssueLabel(issue, labels);
+    },
+    [
+      labels,
+      allowOpenEnded,
+      minDays,
+      maxDays,
+      allowDisabledInRange,
+      disabledDates,
+      timeZone,
+    ]
+  );
+
+  // Typed ranges reaching past minDate or maxDate are cut to those days; a
+  // range without a day between them is outside the selectable dates
+  const clampToBounds = React.useCallback(
+    (range: DateRange): DateRange | undefined => {
+      const first = minDate && startOfDay(toTimeZone(minDate, timeZone));
+      const last = endOfDay(toTimeZone(maxDate, timeZone));
+      if (
+        (range.from && range.from > last) ||
+        (first && range.to && range.to < first)
+      ) {
+        return undefined;
+      }
+      return {
+        from: first && range.from && range.from < first ? first : range.from,
+        to: range.to && range.to > last ? last : range.to,
+      };
+    },
+    [minDate, maxDate, timeZone]
+  );
+
+  // While the end date is pending, also disable days that would make the
+  // range too short, too long, or span a blocked day
+  const isCalendarDayDisabled = React.useMemo(() => {
+    const anchor =
+      status === "selecting-end" && editingTarget === "range"
+        ? draftRange?.from
+        : undefined;
+    const scanLimit = maxDays ?? BLOCKED_DAY_SCAN_LIMIT;
+    const nextBlocked =
+      anchor && !allowDisabledInRange && disabledDates
+        ? findBlockedDay(anchor, 1, disabledDates, scanLimit)
+        : undefined;
+    const previousBlocked =
+      anchor && !allowDisabledInRange && disabledDates
+        ? findBlockedDay(anchor, -1, disabledDates, scanLimit)
+        : undefined;
+    return (date: Date) => {
+      if (isDateDisabled(date)) return true;
+      if (!anchor || isSameDay(date, anchor)) return false;
+      if (nextBlocked && date > nextBlocked) return true;
+      if (previousBlocked && date < previousBlocked) return true;
+      const days = Math.abs(differenceInCalendarDays(date, anchor)) + 1;
+      if (minDays && days < minDays) return true;
+      if (maxDays && days > maxDays) return true;
+      return false;
+    };
+  }, [
+    isDateDisabled,
+    status,
+    editingTarget,
+    draftRange,
+    minDays,
+    maxDays,
+    allowDisabledInRange,
+    disabledDates,
+  ]);
+
+  // Presets whose range breaks the constraints, or has no selectable day,
+  // are unavailable
+  const unavailablePresetIds = React.useMemo(
+    () =>
+      new Set(
+        predefinedRanges
+          .filter((range) => {
+            const resolved = range.resolve(now, dateLib);
+            return !clampToBounds(resolved) || getRangeError(resolved);
+          })
+          .map((range) => range.id)
+      ),
+    [predefinedRanges, now, dateLib, clampToBounds, getRangeError]
+  );
+
+  // Calendar default month calculation
+  const defaultMonth = React.useMemo(() => {
+    const draftDay = draftRange?.from ?? draftRange?.to;
+    const selectedDay = selectedRange?.from ?? selectedRange?.to;
+    return draftDay ?? selectedDay ?? dateLib.addMonths(now, -1);
+  }, [draftRange, selectedRange, now, dateLib]);
+
+  const draftCompareRange = React.useMemo(
+    () => resolveComparisonRange(draftRange, draftComparison, dateLib),
+    [draftRange, draftComparison, dateLib]
+  );
+
+  const selectedCompareRange = React.useMemo(
+    () => resolveComparisonRange(selectedRange, comparison, dateLib),
+    [selectedRange, comparison, dateLib]
+  );
+
+  // Resolved ranges reported alongside a value
+  const getChangeDetails = React.useCallback(
+    (
+      nextValue: DateRangeValue | undefined,
+      nextComparison: DateRangeComparison | undefined
+    ): DateRangeChangeDetails => {
+      const range = resolveValue(nextValue);
+      const compareRange = resolveComparisonRange(
+        range,
+        nextComparison,
+        dateLib
+      );
+      return {
+        range: range && normalizeRange(range),
+        compareRange: compareRange && normalizeRange(compareRange),
+        comparison: nextComparison,
+      };
+    },
+    [resolveValue, dateLib, normalizeRange]
+  );
+
+  // Emit a value together with its resolved ranges
+  const emitChange = React.useCallback(
+    (
+      nextValue: DateRangeValue | undefined,
+      nextComparison: DateRangeComparison | undefined
+    ) => {
+      if (!isControlled) setUncontrolledValue(nextValue);
+      onChange?.(nextValue, getChangeDetails(nextValue, nextComparison));
+    },
+    [isControlled, onChange, getChangeDetails]
+  );
+
+  // Report draft edits, including reverts, once per change
+  const reportedDraft = React.useRef({ draft, draftComparison });
+  React.useEffect(() => {
+    const previous = reportedDraft.current;
+    if (
+      previous.draft === draft &&
+      previous.draftComparison === draftComparison
+    ) {
+      return;
+    }
+    reportedDraft.current = { draft, draftComparison };
+    onDraftChange?.(draft, getChangeDetails(draft, draftComparison));
+  }, [draft, draftComparison, onDraftChange, getChangeDetails]);
+
+  // Single commit path shared by Apply, Clear, presets and typed input
+  const commitValue = React.useCallback(
+    (nextValue: DateRangeValue | undefined, close = true) => {
+      emitChange(nextValue, draftComparison);
+      dispatch({ type: "commit", value: nextValue, close });
+      if (close && open) onOpenChange?.(false);
+    },
+    [emitChange, draftComparison, open, onOpenChange]
+  );
+
+  // A user-confirmed commit: Apply, an applied preset or typed input
+  const applyValue = React.useCallback(
+    (nextValue: DateRangeValue | undefined) => {
+      commitValue(nextValue);
+      onApply?.(nextValue, getChangeDetails(nextValue, draftComparison));
+    },
+    [commitValue, onApply, getChangeDetails, draftComparison]
+  );
+
+  // Event handlers with useCallback for performance
+  const handleRangeSelect = React.useCallback(
+    (range: DateRange | undefined) => {
+      if (!range) {
+        dispatch({
+          type: "select-range",
+          range: undefined,
+          status: "selecting-start",
+        });
+        return;
+      }
+      // Calendar picks are midnight dates; keep the times already chosen
+      const nextRange = withTime
+        ? {
+            from:
+              range.from &&
+              setTimeOfDay(
+                range.from,
+                draftRange?.from ? getTimeOfDay(draftRange.from) : minMinutes
+              ),
+            to:
+              range.to &&
+              setTimeOfDay(
+                range.to,
+                draftRange?.to ? getTimeOfDay(draftRange.to) : maxMinutes
+              ),
+          }
+        : range;
+      // The status follows the days picked, before normalization
+      dispatch({
+        type: "select-range",
+        range: normalizeRange(nextRange),
+        status: getPickStatus(nextRange),
+      });
+    },
+    [withTime, draftRange, minMinutes, maxMinutes, normalizeRange]
+  );
+
+  const handleTimeChange = React.useCallback(
+    (edge: "from" | "to", minutesOfDay: number) => {
+      const date = draftRange?.[edge];
+      if (!draftRange || !date) return;
+      dispatch({
+        type: "set-time",
+        range: { ...draftRange, [edge]: setTimeOfDay(date, minutesOfDay) },
+      });
+    },
+    [draftRange]
+  );
+
+  const handlePredefinedRangeSelect = React.useCallback(
+    (range: PredefinedRange) => {
+      if (unavailablePresetIds.has(range.id)) return;
+      const nextValue: DateRangeValue = {
+        kind: "relative",
+        presetId: range.id,
+      };
+      if (applyOnPredefinedSelect) {
+        applyValue(nextValue);
+      } else {
+        dispatch({ type: "select-preset", value: nextValue });
+      }
+    },
+    [applyOnPredefinedSelect, applyValue, unavailablePresetIds]
+  );
+
+  // Period clicks pick whole periods: the first starts a range, the next
+  // one extends it to cover both
+  const handlePeriodSelect = React.useCallback(
+    (period: { from: Date; to: Date }) => {
+      const extend = (range: DateRange | undefined) =>
+        range?.from && range.to
+          ? {
+              from: range.from < period.from ? range.from : period.from,
+              to: range.to > period.to ? range.to : period.to,
+            }
+          : period;
+      if (editingTarget === "comparison") {
+        // Without a pick status, a comparison of exactly one period extends
+        const current = draftComparison?.range;
+        const isSinglePeriod =
+          !!current?.from &&
+          isRangeEqual(
+            current,
+            getPeriodRange(current.from, granularity, dateLib, fiscalCalendar)
+          );
+        dispatch({
+          type: "set-comparison",
+          comparison: {
+            mode: "custom",
+            range: isSinglePeriod ? extend(current) : period,
+          },
+          editingTarget: "comparison",
+        });
+        return;
+      }
+      if (openEnd) {
+        dispatch({
+          type: "select-range",
+          range: normalizeRange(
+            openEnd === "since"
+              ? { from: period.from, to: undefined }
+              : { from: undefined, to: period.to }
+          ),
+          status: "dirty",
+        });
+        return;
+      }
+      const isPending = status === "selecting-end";
+      dispatch({
+        type: "select-range",
+        range: normalizeRange(isPending ? extend(draftRange) : period),
+        status: isPending ? "dirty" : "selecting-end",
+      });
+    },
+    [
+      editingTarget,
+      draftComparison,
+      granularity,
+      dateLib,
+      fiscalCalendar,
+      openEnd,
+      status,
+      draftRange,
+      normalizeRange,
+    ]
+  );
+
+  // Calendar clicks edit either the range or the custom comparison
+  const handleCalendarSelect = React.useCallback(
+    (range: DateRange | undefined, triggerDate: Date) => {
+      if (granularity !== "day") {
+        handlePeriodSelect(
+          getPeriodRange(triggerDate, granularity, dateLib, fiscalCalendar)
+        );
+        return;
+      }
+      if (editingTarget === "comparison") {
+        dispatch({
+          type: "set-comparison",
+          comparison: {
+            mode: "custom",
+            range: addToRange(triggerDate, draftComparison?.range),
+          },
+          editingTarget: "comparison",
+        });
+        return;
+      }
+      if (openEnd) {
+        // Clicks set the one end, keeping any time already chosen
+        const edge = openEnd === "since" ? "from" : "to";
+        const time = draftRange?.[edge]
+          ? getTimeOfDay(draftRange[edge])
+          : edge === "from"
+            ? minMinutes
+            : maxMinutes;
+        const day = withTime ? setTimeOfDay(triggerDate, time) : triggerDate;
+        dispatch({
+          type: "select-range",
+          range: normalizeRange({ from: undefined, [edge]: day }),
+          status: "dirty",
+        });
+        return;
+      }
+      handleRangeSelect(range);
+    },
+    [
+      granularity,
+      dateLib,
+      fiscalCalendar,
+      handlePeriodSelect,
+      editingTarget,
+      draftComparison,
+      openEnd,
+      draftRange,
+      minMinutes,
+      maxMinutes,
+      withTime,
+      normalizeRange,
+      handleRangeSelect,
+    ]
+  );
+
+  // Switches between open-ended and complete ranges, keeping the picked day
+  const handleOpenEndToggle = React.useCallback(
+    (mode: OpenEndedMode) => {
+      const nextOpenEnd = openEnd === mode ? undefined : mode;
+      const day =
+        nextOpenEnd === "until"
+          ? (draftRange?.to ?? draftRange?.from)
+          : (draftRange?.from ?? draftRange?.to);
+      dispatch({
+        type: "set-open-end",
+        openEnd: nextOpenEnd,
+        range:
+          day &&
+          normalizeRange(
+            nextOpenEnd === "until"
+              ? { from: undefined, to: day }
+              : { from: day, to: undefined }
+          ),
+      });
+    },
+    [openEnd, draftRange, normalizeRange]
+  );
+
+  const handleComparisonToggle = React.useCallback(() => {
+    dispatch({
+      type: "set-comparison",
+      comparison: draftComparison ? undefined : { mode: "previous-period" },
+      editingTarget: "range",
+    });
+  }, [draftComparison]);
+
+  // Takes a select's string value; values that are not modes are ignored
+  const handleComparisonModeChange = React.useCallback(
+    (mode: string) => {
+      if (mode === "custom") {
+        // Start from the derived comparison so it can be adjusted
+        dispatch({
+          type: "set-comparison",
+          comparison: { mode, range: draftCompareRange },
+          editingTarget: "comparison",
+        });
+      } else if (mode === "previous-period" || mode === "previous-year") {
+        dispatch({
+          type: "set-comparison",
+          comparison: { mode },
+          editingTarget: "range",
+        });
+      }
+    },
+    [draftCompareRange]
+  );
+
+  // Apply needs a valid range (or none, or the open-ended range being
+  // picked), and a complete custom comparison
+  const rangeError = getRangeError(draftRange);
+  const canApply =
+    (draft === undefined ||
+      isValidDateRange(draftRange) ||
+      (!!openEnd && getOpenEndedMode(draftRange) === openEnd)) &&
+    !rangeError &&
+    (draftComparison?.mode !== "custom" || isValidDateRange(draftCompareRange));
+
+  const isDirty =
+    !isSameValue(draft, value) ||
+    !isSameComparison(draftComparison, comparison);
+
+  // The day under the pointer or keyboard focus in the calendar or grid
+  const [hoveredDate, setHoveredDate] = React.useState<Date>();
+
+  // While the end is pending, summarize the range a pick of the hovered
+  // day would make, so the counts follow the pointer
+  const draftSummary = React.useMemo((): DateRangeSummary | undefined => {
+    const isPending = status === "selecting-end" && editingTarget === "range";
+    const hovered =
+      isPending &&
+      hoveredDate &&
+      draftRange?.from &&
+      !isCalendarDayDisabled(hoveredDate)
+        ? getPeriodRange(hoveredDate, granularity, dateLib, fiscalCalendar)
+        : undefined;
+    const anchor = draftRange?.from && {
+      from: draftRange.from,
+      to: draftRange.to ?? draftRange.from,
+    };
+    const range =
+      hovered && anchor
+        ? {
+            from: hovered.from < anchor.from ? hovered.from : anchor.from,
+            to: hovered.to > anchor.to ? hovered.to : anchor.to,
+          }
+        : !isPending && draftRange?.from && draftRange.to
+          ? { from: draftRange.from, to: draftRange.to }
+          : undefined;
+    if (!range) return undefined;
+    // Years are left out when both ends fall in the current one
+    const year = dateLib.getYear(now);
+    const pattern =
+      dateLib.getYear(range.from) === year && dateLib.getYear(range.to) === year
+        ? "MMM d"
+        : "PP";
+    return {
+      range,
+      isPreview: !!hovered,
+      days: getRangeDays(range),
+      businessDays: countBusinessDays(range, businessCalendar),
+      label: labels.summaryRange(
+        dateLib.format(range.from, pattern),
+        dateLib.format(range.to, pattern)
+      ),
+    };
+  }, [
+    status,
+    editingTarget,
+    hoveredDate,
+    draftRange,
+    isCalendarDayDisabled,
+    granularity,
+    dateLib,
+    fiscalCalendar,
+    now,
+    businessCalendar,
+    labels,
+  ]);
+
+  const handleApply = React.useCallback(() => {
+    if (canApply) {
+      applyValue(draft);
+    }
+  }, [canApply, draft, applyValue]);
+
+  // Closes without applying, reverting the draft to the committed value
+  const handleCancel = React.useCallback(() => {
+    if (!open) return;
+    onOpenChange?.(false);
+    dispatch({ type: "close", value, comparison });
+    onCancel?.();
+  }, [open, onOpenChange, value, comparison, onCancel]);
+
+  // Outside clicks, Escape and the trigger close by `dismissBehavior`
+  const handleOpenChange = React.useCallback(
+    (nextOpen: boolean) => {
+      if (nextOpen === open) return;
+      if (nextOpen) {
+        onOpenChange?.(true);
+        dispatch({ type: "open" });
+      } else if (dismissBehavior === "apply" && isDirty && canApply) {
+        applyValue(draft);
+      } else if (dismissBehavior === "keep" && isDirty) {
+        onOpenChange?.(false);
+        dispatch({ type: "hide" });
+      } else {
+        handleCancel();
+      }
+    },
+    [
+      open,
+      onOpenChange,
+      dismissBehavior,
+      isDirty,
+      canApply,
+      applyValue,
+      draft,
+      handleCancel,
+    ]
+  );
+
+  const handleClear = React.useCallback(() => {
+    if (clearOnSelect) {
+      commitValue(undefined, closeOnClear);
+    } else {
+      dispatch({ type: "clear" });
+    }
+  }, [clearOnSelect, commitValue, closeOnClear]);
+
+  // Programmatic changes keep the committed comparison and the open state
+  const handle = React.useMemo<DateRangePickerHandle>(() => {
+    const setRange = (next: DateRange | DateRangeValue | undefined) => {
+      const nextValue: DateRangeValue | undefined =
+        next && !("kind" in next)
+          ? { kind: "absolute", range: normalizeRange(snapRange(next)) }
+          : next;
+      emitChange(nextValue, comparison);
+      dispatch({ type: "commit", value: nextValue, close: false });
+    };
+    return {
+      open: () => {
+        if (!disabled) handleOpenChange(true);
+      },
+      close: () => handleOpenChange(false),
+      clear: () => setRange(undefined),
+      focus: () => triggerRef.current?.focus(),
+      setRange,
+    };
+  }, [
+    disabled,
+    handleOpenChange,
+    emitChange,
+    comparison,
+    normalizeRange,
+    snapRange,
+  ]);
+
+  // Callback ref for whichever element acts as the trigger
+  const setTriggerElement = React.useCallback((node: HTMLElement | null) => {
+    triggerRef.current = node;
+  }, []);
+
+  // The form owning the fields, for resetting with it
+  const [formInput, setFormInput] = React.useState<HTMLInputElement | null>(
+    null
+  );
+
+  React.useEffect(() => {
+    const owner = formInput?.form;
+    if (!owner) return;
+    const handleReset = () => {
+      emitChange(defaultValue, comparison);
+      dispatch({ type: "commit", value: defaultValue, close: false });
+    };
+    owner.addEventListener("reset", handleReset);
+    return () => owner.removeEventListener("reset", handleReset);
+  }, [formInput, form, emitChange, defaultValue, comparison]);
+
+  // Native form fields: hidden ISO values, plus a control for `required`.
+  // Date-times, not dates, so the server need not share the picker's zone.
+  const formInputs = React.useMemo(() => {
+    const from = selectedRange?.from;
+    const to = selectedRange?.to;
+    const interval =
+      (from && to) || (allowOpenEnded && (from || to))
+        ? formatInterval({ from, to }, { representation: "date-time" })
+        : "";
+    // The open end ("..") submits as an empty field
+    const [start = "", end = ""] = interval
+      ? interval.split("/").map((part) => (part === ".." ? "" : part))
+      : [];
+    const fields: React.ComponentProps<"input">[] = [
+      ...(name ? [{ name, value: interval }] : []),
+      ...(startName ? [{ name: startName, value: start }] : []),
+      ...(endName ? [{ name: endName, value: end }] : []),
+    ].map((field) => ({ ...field, type: "hidden", form, disabled }));
+    if (required) {
+      // Hidden inputs skip constraint validation, so an unnamed one is used
+      fields.push({
+        type: "text",
+        value: interval,
+        onChange: () => {},
+        required: true,
+        tabIndex: -1,
+        "aria-hidden": true,
+        form,
+        disabled,
+      });
+    }
+    if (fields.length) fields[0].ref = setFormInput;
+    return fields;
+  }, [
+    selectedRange,
+    allowOpenEnded,
+    name,
+    startName,
+    endName,
+    required,
+    form,
+    disabled,
+  ]);
+
+  // Format date range for display
+  const formatDateRange = React.useCallback(
+    (range: DateRange | undefined): string => {
+      // "PP" is the locale's medium date, e.g. "Mar 3, 2024" or "03.03.2024"
+      const timePattern = timeFormat === "12h" ? "h:mm a" : "HH:mm";
+      const pattern = withTime ? `PP ${timePattern}` : "PP";
+      const formatDate = (date: Date, datePattern: string) =>
+        dateLib.format(date, datePattern);
+      // Coarser granularities name their periods, e.g. "Q1 2024"
+      const formatEnd = (date: Date) =>
+        granularity === "day"
+          ? formatDate(date, pattern)
+          : formatPeriod(date, granularity, dateLib, labels, fiscalCalendar);
+      if (allowOpenEnded && range?.to && !range.from) {
+        return labels.untilDate(formatEnd(range.to));
+      }
+      if (!range?.from) {
+        return placeholder;
+      }
+      if (allowOpenEnded && !range.to) {
+        return labels.sinceDate(formatEnd(range.from));
+      }
+      if (granularity !== "day" && range.to) {
+        return formatPeriodRange(
+          range.from,
+          range.to,
+          granularity,
+          dateLib,
+          labels,
+          fiscalCalendar
+        );
+      }
+      if (!range.to) {
+        return formatDate(range.from, pattern);
+      }
+      if (range.from.getTime() === range.to.getTime()) {
+        return formatDate(range.from, pattern);
+      }
+      // Same-day datetime ranges only repeat the time
+      if (withTime && isSameDay(range.from, range.to)) {
+        return `${formatDate(range.from, pattern)} - ${formatDate(
+          range.to,
+          timePattern
+        )}`;
+      }
+      return `${formatDate(range.from, pattern)} - ${formatDate(
+        range.to,
+        pattern
+      )}`;
+    },
+    [
+      placeholder,
+      withTime,
+      timeFormat,
+      dateLib,
+      granularity,
+      fiscalCalendar,
+      allowOpenEnded,
+      labels,
+    ]
+  );
+
+  // Relative values display their preset label, absolute ones their dates.
+  // Typed input edits this built-in label.
+  const formatValue = React.useCallback(
+    (rangeValue: DateRangeValue | undefined): string => {
+      if (rangeValue?.kind === "relative") {
+        const preset = predefinedRanges.find(
+          (range) => range.id === rangeValue.presetId
+        );
+        if (preset) return preset.label;
+      }
+      return formatDateRange(resolveValue(rangeValue));
+    },
+    [predefinedRanges, formatDateRange, resolveValue]
+  );
+
+  // Trigger text, optionally suffixed with the time zone abbreviation
+  const triggerLabel = React.useMemo(() => {
+    const defaultLabel = formatValue(value);
+    const label = formatValueProp
+      ? formatValueProp(selectedRange, {
+          value,
+          preset:
+            value?.kind === "relative"
+              ? predefinedRanges.find((range) => range.id === value.presetId)
+              : undefined,
+          dateLib,
+          defaultLabel,
+        })
+      : defaultLabel;
+    if (!showTimeZone || !timeZone || !value) return label;
+    return `${label} (${getTimeZoneAbbreviation(timeZone, now, locale?.code)})`;
+  }, [
+    formatValue,
+    formatValueProp,
+    value,
+    selectedRange,
+    predefinedRanges,
+    dateLib,
+    showTimeZone,
+    timeZone,
+    now,
+    locale,
+  ]);
+
+  // Compact label for the committed comparison range
+  const compareLabel = React.useMemo(() => {
+    const from = selectedCompareRange?.from;
+    const to = selectedCompareRange?.to;
+    if (!from || !to) return undefined;
+    if (isSameDay(from, to)) return dateLib.format(from, "PP");
+    return `${dateLib.format(from, "PP")} - ${dateLib.format(to, "PP")}`;
+  }, [selectedCompareRange, dateLib]);
+
+  // Typed input; null while the input is not being edited
+  const [inputText, setInputText] = React.useState<string | null>(null);
+  const previewId = React.useId();
+
+  // Parse typed input, keeping preset labels relative
+  const parsedInput = React.useMemo(():
+    | { value: DateRangeValue; range: DateRange }
+    | { error: string }
+    | undefined => {
+    const text = inputText?.trim();
+    if (!text) return undefined;
+
+    const preset = predefinedRanges.find(
+      (range) => range.label.toLowerCase() === text.toLowerCase()
+    );
+    const parsedRange = preset
+      ? undefined
+      : parseDateRange(text, { now, locale, weekStartsOn, allowOpenEnded });
+    const nextValue: DateRangeValue | undefined = preset
+      ? { kind: "relative", presetId: preset.id }
+      : parsedRange && {
+          kind: "absolute",
+          range: normalizeRange(snapRange(parsedRange)),
+        };
+    if (!nextValue) return { error: labels.unrecognizedRange };
+
+    const resolved = resolveValue(nextValue);
+    const isOpenEnded = allowOpenEnded && !!getOpenEndedMode(resolved);
+    if (!resolved || !(isOpenEnded || isValidDateRange(resolved))) {
+      return { error: labels.unrecognizedRange };
+    }
+    // The date bounds work as for presets, and typed ranges are cut to them
+    const bounded = clampToBounds(resolved);
+    if (!bounded) return { error: labels.outsideSelectableDates };
+    const range = nextValue.kind === "absolute" ? bounded : resolved;
+    const error = getRangeError(range);
+    if (error) return { error };
+    return {
+      value:
+        nextValue.kind === "absolute"
+          ? { kind: "absolute", range: normalizeRange(range) }
+          : nextValue,
+      range,
+    };
+  }, [
+    inputText,
+    predefinedRanges,
+    now,
+    locale,
+    weekStartsOn,
+    allowOpenEnded,
+    labels,
+    normalizeRange,
+    snapRange,
+    resolveValue,
+    clampToBounds,
+    getRangeError,
+  ]);
+
+  const handleInputCommit = React.useCallback(
+    (force: boolean) => {
+      // On blur, only commit text the user actually changed
+      const changed = inputText !== formatValue(value);
+      if (parsedInput && "value" in parsedInput && (force || changed)) {
+        applyValue(parsedInput.value);
+      }
+      setInputText(null);
+    },
+    [inputText, formatValue, value, parsedInput, applyValue]
+  );
+
+  // Check if a predefined range is currently selected
+  const isRangeSelected = React.useCallback(
+    (predefinedRange: PredefinedRange) => {
+      if (draft?.kind === "relative") {
+        return draft.presetId === predefinedRange.id;
+      }
+      return isRangeEqual(predefinedRange.resolve(now, dateLib), draftRange);
+    },
+    [draft, draftRange, now, dateLib]
+  );
+
+  // Prop getters for custom markup; spread them onto your own elements
+  const triggerAriaLabel =
+    labels.trigger(triggerLabel, compareLabel) +
+    (isDirty ? `, ${labels.unappliedChanges}` : "");
+
+  const getTriggerProps = React.useCallback(
+    () => ({
+      type: "button" as const,
+      ref: setTriggerElement,
+      disabled,
+      "aria-haspopup": "dialog" as const,
+      "aria-expanded": open,
+      "aria-label": triggerAriaLabel,
+      "data-dirty": isDirty || undefined,
+      onClick: () => handleOpenChange(!open),
+    }),
+    [
+      setTriggerElement,
+      disabled,
+      open,
+      triggerAriaLabel,
+      isDirty,
+      handleOpenChange,
+    ]
+  );
+
+  const getPresetProps = React.useCallback(
+    (preset: PredefinedRange) => {
+      const isUnavailable = unavailablePresetIds.has(preset.id);
+      return {
+        type: "button" as const,
+        disabled: isUnavailable,
+        "aria-pressed": isRangeSelected(preset),
+        "aria-label": isUnavailable
+          ? labels.presetUnavailable(preset.label)
+          : preset.description || labels.selectPreset(preset.label),
+        onClick: () => handlePredefinedRangeSelect(preset),
+      };
+    },
+    [unavailablePresetIds, isRangeSelected, labels, handlePredefinedRangeSelect]
+  );
+
+  // Props for a react-day-picker range calendar
+  const getCalendarProps = React.useCallback(
+    () => ({
+      mode: "range" as const,
+      selected: draftRange,
+      onSelect: handleCalendarSelect,
+      disabled: isCalendarDayDisabled,
+      defaultMonth,
+      modifiers: {
+        ...(draftCompareRange && { comparison: draftCompareRange }),
+        ...(holidayCalendar && {
+          holiday: (date: Date) => !!getHoliday(date, holidayCalendar),
+        }),
+      },
+      onDayMouseEnter: (date: Date) => setHoveredDate(date),
+      onDayMouseLeave: () => setHoveredDate(undefined),
+      onDayFocus: (date: Date) => setHoveredDate(date),
+      onDayBlur: () => setHoveredDate(undefined),
+      // Day buttons also name their holiday, e.g. "…, Christmas Day"
+      labels: {
+        labelPrevious: () => labels.previousMonth,
+        labelNext: () => labels.nextMonth,
+        labelDayButton: (date: Date, modifiers: Modifiers) => {
+          let label = dateLib.format(date, "PPPP");
+          if (modifiers.today) label = labels.today(label);
+          if (modifiers.selected) label = labels.selectedDay(label);
+          const holiday = holidayCalendar && getHoliday(date, holidayCalendar);
+          return holiday?.name ? `${label}, ${holiday.name}` : label;
+        },
+      },
+      timeZone,
+      locale: calendarLocale,
+      weekStartsOn,
+      showWeekNumber: granularity === "week",
+      dateLib,
+      dir,
+      today: now,
+      startMonth: minDate || dateLib.addMonths(now, -12),
+      endMonth: maxDate,
+    }),
+    [
+      draftRange,
+      handleCalendarSelect,
+      isCalendarDayDisabled,
+      defaultMonth,
+      draftCompareRange,
+      holidayCalendar,
+      labels,
+      timeZone,
+      calendarLocale,
+      weekStartsOn,
+      granularity,
+      dateLib,
+      dir,
+      now,
+      minDate,
+      maxDate,
+    ]
+  );
+
+  // The month, quarter or year grid page holding a date
+  const getPeriodPage = React.useCallback(
+    (date: Date): DateRangePeriodPage => {
+      const getPeriod = (day: Date, unit: DateRangeGranularity) =>
+        getPeriodRange(day, unit, dateLib, fiscalCalendar);
+      const getYearLabel = (day: Date) =>
+        fiscalCalendar
+          ? labels.fiscalYear(getFiscalYear(day, fiscalCalendar))
+          : dateLib.format(day, "yyyy");
+      const year = getPeriod(toTimeZone(date, timeZone), "year");
+      // Year blocks start at multiples of twelve, so pages stay put. Periods
+      // are walked one by one, as fiscal ones vary in length.
+      let start = year.from;
+      if (granularity === "year") {
+        const yearNumber = fiscalCalendar
+          ? getFiscalYear(start, fiscalCalendar)
+          : dateLib.getYear(start);
+        for (let offset = yearNumber % 12; offset > 0; offset--) {
+          start = getPeriod(dateLib.addDays(start, -1), "year").from;
+        }
+      }
+      const periods: DateRangePeriod[] = [];
+      const count = granularity === "quarter" ? 4 : 12;
+      for (let day = start; periods.length < count;) {
+        const { from, to } = getPeriod(day, granularity);
+        const label =
+          granularity === "year"
+            ? getYearLabel(from)
+            : granularity === "quarter"
+              ? labels.quarter(periods.length + 1)
+              : dateLib.format(getMidpoint({ from, to }), "LLL");
+        periods.push({ from, to, label });
+        day = dateLib.addDays(to, 1);
+      }
+      const first = periods[0];
+      const last = periods[periods.length - 1];
+      return {
+        label:
+          granularity === "year"
+            ? `${first.label} – ${last.label}`
+            : getYearLabel(year.from),
+        periods,
+        previous:
+          minDate && first.from <= minDate
+            ? undefined
+            : dateLib.addDays(first.from, -1),
+        next:
+          maxDate && last.to >= maxDate
+            ? undefined
+            : dateLib.addDays(last.to, 1),
+      };
+    },
+    [granularity, dateLib, fiscalCalendar, labels, timeZone, minDate, maxDate]
+  );
+
+  // Grid cells: pressed while inside the edited range, disabled past the
+  // date bounds
+  const getPeriodProps = React.useCallback(
+    (period: DateRangePeriod) => {
+      const range =
+        editingTarget === "comparison" ? draftCompareRange : draftRange;
+      const isSelected =
+        !!(range?.from || range?.to) &&
+        (!range?.from || period.to >= range.from) &&
+        (!range?.to || period.from <= range.to);
+      return {
+        type: "button" as const,
+        disabled:
+          disabled ||
+          (!!minDate && period.to < minDate) ||
+          (!!maxDate && period.from > maxDate),
+        "aria-pressed": isSelected,
+        "aria-label": formatDateRange(period),
+        onClick: () => handlePeriodSelect(period),
+        onMouseEnter: () => setHoveredDate(period.from),
+        onMouseLeave: () => setHoveredDate(undefined),
+        onFocus: () => setHoveredDate(period.from),
+        onBlur: () => setHoveredDate(undefined),
+      };
+    },
+    [
+      editingTarget,
+      draftCompareRange,
+      draftRange,
+      disabled,
+      minDate,
+      maxDate,
+      formatDateRange,
+      handlePeriodSelect,
+    ]
+  );
+
+  const getApplyButtonProps = React.useCallback(
+    () => ({
+      type: "button" as const,
+      disabled: !canApply,
+      "aria-label": labels.applyAria,
+      onClick: handleApply,
+    }),
+    [canApply, labels, handleApply]
+  );
+
+  const getCancelButtonProps = React.useCallback(
+    () => ({
+      type: "button" as const,
+      "aria-label": labels.cancelAria,
+      onClick: handleCancel,
+    }),
+    [labels, handleCancel]
+  );
+
+  const getOpenEndToggleProps = React.useCallback(
+    (mode: OpenEndedMode) => ({
+      type: "button" as const,
+      "aria-pressed": openEnd === mode,
+      "aria-label": mode === "since" ? labels.sinceAria : labels.untilAria,
+      onClick: () => handleOpenEndToggle(mode),
+    }),
+    [openEnd, labels, handleOpenEndToggle]
+  );
+
+  const getClearButtonProps = React.useCallback(
+    () => ({
+      type: "button" as const,
+      disabled: !draft,
+      "aria-label": labels.clearAria,
+      onClick: handleClear,
+    }),
+    [draft, labels, handleClear]
+  );
+
+  return {
+    status,
+    open,
+    value,
+    selectedRange,
+    selectedCompareRange,
+    draft,
+    draftRange,
+    draftComparison,
+    draftCompareRange,
+    editingTarget,
+    setEditingTarget,
+    allowOpenEnded,
+    openEnd,
+    granularity,
+    disabled,
+    now,
+    minDate,
+    maxDate,
+    timeZone,
+    calendarLocale,
+    weekStartsOn,
+    dir,
+    dateLib,
+    labels,
+    placeholder,
+    predefinedRanges,
+    withTime,
+    timeFormat,
+    minuteStep,
+    minMinutes,
+    maxMinutes,
+    defaultMonth,
+    isCalendarDayDisabled,
+    unavailablePresetIds,
+    rangeError,
+    canApply,
+    isDirty,
+    draftSummary,
+    triggerLabel,
+    triggerAriaLabel,
+    compareLabel,
+    inputText,
+    setInputText,
+    parsedInput,
+    previewId,
+    formatDateRange,
+    formatValue,
+    isRangeSelected,
+    handle,
+    setTriggerElement,
+    formInputs,
+    handleOpenChange,
+    handleCalendarSelect,
+    handleTimeChange,
+    handlePredefinedRangeSelect,
+    handleComparisonToggle,
+    handleComparisonModeChange,
+    handleOpenEndToggle,
+    handlePeriodSelect,
+    handleInputCommit,
+    handleApply,
+    handleCancel,
+    handleClear,
+    getTriggerProps,
+    getPresetProps,
+    getCalendarProps,
+    getPeriodPage,
+    getPeriodProps,
+    getApplyButtonProps,
+    getCancelButtonProps,
+    getOpenEndToggleProps,
+    getClearButtonProps,
+  };
+}
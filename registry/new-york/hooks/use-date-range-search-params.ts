@@ -0,0 +1,126 @@
+"use client";
+
+import * as React from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import type { DateRangeValue } from "@/registry/new-york/hooks/use-date-range-picker";
+import {
+  DateRangeSearchParamsOptions,
+  parseDateRangeSearchParams,
+  writeDateRangeSearchParams,
+} from "@/registry/new-york/lib/date-range-search-params";
+
+export type { DateRangeSearchParamsOptions };
+export {
+  parseDateRangeSearchParams,
+  writeDateRangeSearchParams,
+} from "@/registry/new-york/lib/date-range-search-params";
+
+/**
+ * Options for useDateRangeSearchParams
+ */
+export interface UseDateRangeSearchParamsOptions extends DateRangeSearchParamsOptions {
+  /**
+   * Whether a change replaces the current history entry or pushes a new
+   * one, so Back returns to the previous range (defaults to "replace")
+   */
+  history?: "replace" | "push";
+  /** Milliseconds to wait before writing to the URL (defaults to 0) */
+  debounce?: number;
+  /** Whether to scroll to the top after navigating (defaults to false) */
+  scroll?: boolean;
+}
+
+/**
+ * Keeps a DateRangePicker value in the URL with the App Router, so ranges
+ * survive reloads and can be shared. Pass the result to the picker's
+ * `value` and `onChange`:
+ *
+ * ```tsx
+ * const [value, setValue] = useDateRangeSearchParams({ defaultValue });
+ * <DateRangePicker value={value} onChange={setValue} />
+ * ```
+ *
+ * Uses `useSearchParams()`, so render it inside a Suspense boundary. Parse
+ * the same URL on the server with `parseDateRangeSearchParams()`.
+ */
+export function useDateRangeSearchParams(
+  options: UseDateRangeSearchParamsOptions = {}
+): [DateRangeValue | undefined, (value: DateRangeValue | undefined) => void] {
+  const {
+    param,
+    startParam,
+    endParam,
+    timeZone,
+    normalization,
+    allowOpenEnded,
+    history = "replace",
+    debounce = 0,
+    scroll = false,
+  } = options;
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The written form identifies the value, so it keeps its identity while
+  // the URL means the same range and the picker's draft is left alone
+  const parsed = parseDateRangeSearchParams(searchParams, options);
+  const key = writeDateRangeSearchParams("", parsed, options).toString();
+  const [current, setCurrent] = React.useState({ key, value: parsed });
+  if (current.key !== key) setCurrent({ key, value: parsed });
+  const urlValue = current.key === key ? current.value : parsed;
+
+  // Shown until the URL catches up, including while debouncing
+  const [pending, setPending] = React.useState<{
+    value: DateRangeValue | undefined;
+  } | null>(null);
+  const timeout = React.useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  React.useEffect(() => {
+    setPending(null);
+  }, [searchParams]);
+
+  React.useEffect(() => () => clearTimeout(timeout.current), []);
+
+  const setValue = React.useCallback(
+    (value: DateRangeValue | undefined) => {
+      setPending({ value });
+      clearTimeout(timeout.current);
+      const navigate = () => {
+        // Read the live URL: other params may have changed while waiting
+        const query = writeDateRangeSearchParams(
+          window.location.search,
+          value,
+          {
+            param,
+            startParam,
+            endParam,
+            timeZone,
+            normalization,
+            allowOpenEnded,
+          }
+        ).toString();
+        const href = query ? `${pathname}?${query}` : pathname;
+        if (history === "push") router.push(href, { scroll });
+        else router.replace(href, { scroll });
+      };
+      if (debounce > 0) timeout.current = setTimeout(navigate, debounce);
+      else navigate();
+    },
+    [
+      router,
+      pathname,
+      param,
+      startParam,
+      endParam,
+      timeZone,
+      normalization,
+      allowOpenEnded,
+      history,
+      debounce,
+      scroll,
+    ]
+  );
+
+  return [pending ? pending.value : urlValue, setValue];
+}
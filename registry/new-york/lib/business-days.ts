@@ -0,0 +1,182 @@
+import { addDays, constructFrom, format, startOfDay } from "date-fns";
+
+import type { PredefinedRange } from "@/registry/new-york/lib/date-range-types";
+
+/**
+ * A public holiday on a calendar date
+ */
+export interface Holiday {
+  /** The day off as "yyyy-MM-dd", e.g. "2026-12-25" */
+  date: string;
+  /** Display name, e.g. "Christmas Day" */
+  name?: string;
+}
+
+/**
+ * Which days are worked: every day except the weekend and the holidays.
+ * Holidays are plain data, so lists loaded from JSON or read from an ICS
+ * feed with parseIcsHolidays work as they are.
+ */
+export interface HolidayCalendar {
+  /** Days of the week off (0 - Sunday); defaults to Saturday and Sunday */
+  weekend?: number[];
+  /** Days off besides the weekend */
+  holidays?: Holiday[];
+}
+
+const DEFAULT_WEEKEND = [0, 6];
+
+// Holidays by date, built once per calendar
+const holidayIndexes = new WeakMap<HolidayCalendar, Map<string, Holiday>>();
+
+const getHolidayIndex = (calendar: HolidayCalendar): Map<string, Holiday> => {
+  let index = holidayIndexes.get(calendar);
+  if (!index) {
+    index = new Map(
+      (calendar.holidays ?? []).map((holiday) => [holiday.date, holiday])
+    );
+    holidayIndexes.set(calendar, index);
+  }
+  return index;
+};
+
+/**
+ * Returns the holiday on a date's day, if any. Days are read in the date's
+ * own zone, so a TZDate matches the holidays of its zone's calendar.
+ */
+export function getHoliday(
+  date: Date,
+  calendar: HolidayCalendar
+): Holiday | undefined {
+  return getHolidayIndex(calendar).get(format(date, "yyyy-MM-dd"));
+}
+
+/**
+ * Whether a date is a working day: neither a weekend day nor a holiday
+ */
+export function isBusinessDay(
+  date: Date,
+  calendar: HolidayCalendar = {}
+): boolean {
+  const weekend = calendar.weekend ?? DEFAULT_WEEKEND;
+  return !weekend.includes(date.getDay()) && !getHoliday(date, calendar);
+}
+
+/**
+ * Adds business days to a date, skipping weekends and holidays; negative
+ * amounts count back. The time of day is kept. Returns an invalid date
+ * when the calendar has no working days.
+ */
+export function addBusinessDays(
+  date: Date,
+  amount: number,
+  calendar: HolidayCalendar = {}
+): Date {
+  const weekend = calendar.weekend ?? DEFAULT_WEEKEND;
+  if (!Number.isInteger(amount) || new Set(weekend).size >= 7) {
+    return constructFrom(date, NaN);
+  }
+  const step = amount < 0 ? -1 : 1;
+  let result = date;
+  for (let remaining = Math.abs(amount); remaining > 0;) {
+    result = addDays(result, step);
+    if (isBusinessDay(result, calendar)) remaining -= 1;
+  }
+  return result;
+}
+
+/**
+ * Counts the business days a range spans, inclusive of both ends
+ */
+export function countBusinessDays(
+  range: { from?: Date; to?: Date },
+  calendar: HolidayCalendar = {}
+): number {
+  if (!range.from || !range.to) return 0;
+  let count = 0;
+  for (
+    let day = startOfDay(range.from);
+    day <= range.to;
+    day = addDays(day, 1)
+  ) {
+    if (isBusinessDay(day, calendar)) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Reads the all-day events of an iCalendar (.ics) feed as holidays, e.g. a
+ * public holiday calendar exported from a calendar app. Multi-day events
+ * yield one holiday per day; timed events are skipped.
+ */
+export function parseIcsHolidays(ics: string): Holiday[] {
+  // Long lines continue on lines starting with a space or tab
+  const lines = ics
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd());
+  const holidays: Holiday[] = [];
+  let event: { start?: string; end?: string; name?: string } | undefined;
+  // All-day values are bare dates (VALUE=DATE); date-times carry a time part
+  const readDate = (value: string | undefined) => {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return match ? new Date(+match[1], +match[2] - 1, +match[3]) : undefined;
+  };
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (!event) continue;
+    if (line === "END:VEVENT") {
+      const start = readDate(event.start);
+      const end = readDate(event.end);
+      // DTEND is exclusive: an all-day event ends the day after its last
+      const last = start && end && end > start ? addDays(end, -1) : start;
+      for (let day = start; day && last && day <= last; day = addDays(day, 1)) {
+        holidays.push({ date: format(day, "yyyy-MM-dd"), name: event.name });
+      }
+      event = undefined;
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const key = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    if (key === "DTSTART") event.start = value;
+    if (key === "DTEND") event.end = value;
+    // Unescape commas, semicolons and backslashes
+    if (key === "SUMMARY") event.name = value.replace(/\\([,;\\])/g, "$1");
+  }
+  return holidays;
+}
+
+/**
+ * Presets counting back over business days: the last 5 and last 10, up to
+ * the latest business day
+ */
+export function getBusinessDayPredefinedRanges(
+  calendar: HolidayCalendar = {}
+): PredefinedRange[] {
+  const lastBusinessDays = (now: Date, count: number) => {
+    const to = isBusinessDay(now, calendar)
+      ? now
+      : addBusinessDays(now, -1, calendar);
+    return { from: addBusinessDays(to, 1 - count, calendar), to };
+  };
+
+  return [
+    {
+      id: "last-5-business-days",
+      label: "Last 5 Business Days",
+      resolve: (now) => lastBusinessDays(now, 5),
+      description: "Select the last 5 business days",
+    },
+    {
+      id: "last-10-business-days",
+      label: "Last 10 Business Days",
+      resolve: (now) => lastBusinessDays(now, 10),
+      description: "Select the last 10 business days",
+    },
+  ];
+}
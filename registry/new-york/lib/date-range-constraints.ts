@@ -0,0 +1,173 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfDay,
+  isSameDay,
+  startOfDay,
+} from "date-fns";
+import { TZDate } from "@date-fns/tz";
+import type { DateRange, Matcher } from "react-day-picker";
+
+/**
+ * Constraints on a date range. Accepted both by the DateRangePicker props
+ * and by `dateRangeSchema()`, so one object validates the picker's
+ * selection and the submitted value alike.
+ */
+export interface DateRangeConstraints {
+  /** Minimum selectable date */
+  minDate?: Date;
+  /** Maximum selectable date */
+  maxDate?: Date;
+  /** Minimum range length in days, inclusive of both ends */
+  minDays?: number;
+  /** Maximum range length in days, inclusive of both ends */
+  maxDays?: number;
+  /**
+   * Blocked dates: weekends (`{ dayOfWeek: [0, 6] }`), holidays (`Date[]`),
+   * blackout ranges (`{ from, to }`) or a predicate function
+   */
+  disabledDates?: Matcher | Matcher[];
+  /** Whether a range may span blocked dates (defaults to true) */
+  allowDisabledInRange?: boolean;
+}
+
+/**
+ * Why a range breaks its constraints
+ */
+export type DateRangeIssue =
+  | { code: "invalid-order" }
+  | { code: "before-min-date"; minDate: Date }
+  | { code: "after-max-date"; maxDate: Date }
+  | { code: "disabled-endpoint"; date: Date }
+  | { code: "too-short"; minDays: number; days: number }
+  | { code: "too-long"; maxDays: number; days: number }
+  | { code: "contains-disabled" };
+
+/**
+ * Counts the calendar days a range spans, inclusive of both ends
+ */
+export function getRangeDays(range: DateRange): number {
+  return range.from && range.to
+    ? differenceInCalendarDays(range.to, range.from) + 1
+    : 0;
+}
+
+/**
+ * Whether a day matches a react-day-picker matcher, or any of several: a
+ * date, dates, a `{ from, to }` range, `{ before }` / `{ after }` bounds,
+ * `{ dayOfWeek }` or a predicate. Matches the calendar's own rules.
+ */
+export function isDateMatched(
+  date: Date,
+  matchers: Matcher | Matcher[]
+): boolean {
+  return (Array.isArray(matchers) ? matchers : [matchers]).some((matcher) => {
+    if (typeof matcher === "boolean") return matcher;
+    if (typeof matcher === "function") return matcher(date);
+    if (matcher instanceof Date) return isSameDay(date, matcher);
+    if (Array.isArray(matcher)) {
+      return matcher.some((day) => isSameDay(date, day));
+    }
+    if ("dayOfWeek" in matcher) {
+      return [matcher.dayOfWeek].flat().includes(date.getDay());
+    }
+    if ("before" in matcher && "after" in matcher) {
+      const isBefore = differenceInCalendarDays(matcher.before, date) > 0;
+      const isAfter = differenceInCalendarDays(matcher.after, date) < 0;
+      // Closed when `before` is later than `after`, open otherwise
+      return matcher.before > matcher.after
+        ? isBefore && isAfter
+        : isBefore || isAfter;
+    }
+    if ("before" in matcher) {
+      return differenceInCalendarDays(matcher.before, date) > 0;
+    }
+    if ("after" in matcher) {
+      return differenceInCalendarDays(date, matcher.after) > 0;
+    }
+    const { from, to } = matcher;
+    if (from && to) {
+      const [start, end] = from <= to ? [from, to] : [to, from];
+      return (
+        differenceInCalendarDays(date, start) >= 0 &&
+        differenceInCalendarDays(end, date) >= 0
+      );
+    }
+    const edge = from ?? to;
+    return !!edge && isSameDay(date, edge);
+  });
+}
+
+/**
+ * Whether any day of a range matches the matchers
+ */
+const rangeContainsMatch = (
+  range: { from: Date; to: Date },
+  matchers: Matcher | Matcher[]
+): boolean => {
+  for (
+    let day = startOfDay(range.from);
+    day <= range.to;
+    day = addDays(day, 1)
+  ) {
+    if (isDateMatched(day, matchers)) return true;
+  }
+  return false;
+};
+
+/**
+ * Lists the constraints a range breaks. Date bounds compare whole days, in
+ * `timeZone` when given. An out-of-order range reports only that. An
+ * open-ended range is checked at its one end; lengths need both.
+ */
+export function getDateRangeIssues(
+  range: { from?: Date; to?: Date },
+  constraints: DateRangeConstraints,
+  timeZone?: string
+): DateRangeIssue[] {
+  const {
+    minDate,
+    maxDate,
+    minDays,
+    maxDays,
+    disabledDates,
+    allowDisabledInRange = true,
+  } = constraints;
+  if (range.from && range.to && range.from > range.to) {
+    return [{ code: "invalid-order" }];
+  }
+
+  const inZone = (date: Date) => (timeZone ? new TZDate(date, timeZone) : date);
+  const from = range.from && inZone(range.from);
+  const to = range.to && inZone(range.to);
+  const issues: DateRangeIssue[] = [];
+  if (minDate && from && from < startOfDay(inZone(minDate))) {
+    issues.push({ code: "before-min-date", minDate });
+  }
+  if (maxDate && to && to > endOfDay(inZone(maxDate))) {
+    issues.push({ code: "after-max-date", maxDate });
+  }
+  const blockedEndpoint =
+    disabledDates &&
+    [from, to].find((date) => date && isDateMatched(date, disabledDates));
+  if (blockedEndpoint) {
+    issues.push({ code: "disabled-endpoint", date: blockedEndpoint });
+  }
+  if (!from || !to) return issues;
+
+  const days = getRangeDays({ from, to });
+  if (minDays && days < minDays) {
+    issues.push({ code: "too-short", minDays, days });
+  }
+  if (maxDays && days > maxDays) {
+    issues.push({ code: "too-long", maxDays, days });
+  }
+  if (
+    !allowDisabledInRange &&
+    disabledDates &&
+    rangeContainsMatch({ from, to }, disabledDates)
+  ) {
+    issues.push({ code: "contains-disabled" });
+  }
+  return issues;
+}
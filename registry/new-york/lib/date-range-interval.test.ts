@@ -0,0 +1,110 @@
+import { endOfDay } from "date-fns";
+import { describe, expect, it } from "vitest";
+
+import {
+  formatInterval,
+  parseInterval,
+} from "@/registry/new-york/lib/date-range-interval";
+
+describe("formatInterval and parseInterval", () => {
+  it("round-trips date-only ranges in the local zone", () => {
+    const range = {
+      from: new Date(2024, 0, 1),
+      to: endOfDay(new Date(2024, 0, 31)),
+    };
+    const text = formatInterval(range);
+
+    expect(text).toBe("2024-01-01/2024-01-31");
+    expect(parseInterval(text)).toEqual(range);
+  });
+
+  it("round-trips date-only ranges in a time zone", () => {
+    const range = parseInterval("2024-03-01/2024-03-31", {
+      timeZone: "America/New_York",
+    });
+
+    // The range spans the switch to daylight saving time on March 10
+    expect(range?.from?.getTime()).toBe(Date.parse("2024-03-01T05:00:00Z"));
+    expect(range?.to?.getTime()).toBe(Date.parse("2024-04-01T03:59:59.999Z"));
+    expect(formatInterval(range!, { timeZone: "America/New_York" })).toBe(
+      "2024-03-01/2024-03-31"
+    );
+  });
+
+  it("round-trips normalized ranges", () => {
+    const range = parseInterval("2024-01-01/2024-01-31", {
+      normalization: "half-open",
+    });
+
+    expect(range?.to).toEqual(new Date(2024, 1, 1));
+    expect(formatInterval(range!, { normalization: "half-open" })).toBe(
+      "2024-01-01/2024-01-31"
+    );
+  });
+
+  it("round-trips date-times", () => {
+    const range = {
+      from: new Date("2024-01-01T08:30:00.000Z"),
+      to: new Date("2024-01-02T17:45:10.500Z"),
+    };
+    const text = formatInterval(range);
+
+    expect(text).toBe("2024-01-01T08:30:00.000Z/2024-01-02T17:45:10.500Z");
+    expect(parseInterval(text)).toEqual(range);
+  });
+
+  it("reads offsets and writes the same instants in UTC", () => {
+    const range = parseInterval(
+      "2024-03-10T09:00:00+05:30/2024-03-10T18:00:00-08:00"
+    );
+    const text = formatInterval(range!);
+
+    expect(text).toBe("2024-03-10T03:30:00.000Z/2024-03-11T02:00:00.000Z");
+    expect(parseInterval(text)).toEqual(range);
+  });
+
+  it("reads date-times without an offset as wall-clock time in a zone", () => {
+    const range = parseInterval("2024-03-09T22:30/2024-03-10T03:30", {
+      timeZone: "America/New_York",
+    });
+
+    // Daylight saving time starts at 2:00 on March 10
+    expect(range?.from?.getTime()).toBe(Date.parse("2024-03-10T03:30:00Z"));
+    expect(range?.to?.getTime()).toBe(Date.parse("2024-03-10T07:30:00Z"));
+    const text = formatInterval(range!, { timeZone: "America/New_York" });
+    expect(text).toBe(
+      "2024-03-09T22:30:00.000-05:00/2024-03-10T03:30:00.000-04:00"
+    );
+    expect(parseInterval(text)).toEqual({
+      from: new Date(range!.from!.getTime()),
+      to: new Date(range!.to!.getTime()),
+    });
+  });
+
+  it("round-trips open-ended ranges", () => {
+    const since = { from: new Date(2024, 2, 3), to: undefined };
+    const until = { from: undefined, to: endOfDay(new Date(2024, 2, 3)) };
+
+    expect(formatInterval(since)).toBe("2024-03-03/..");
+    expect(formatInterval(until)).toBe("../2024-03-03");
+    expect(parseInterval("2024-03-03/..")).toEqual(since);
+    expect(parseInterval("../2024-03-03")).toEqual(until);
+    expect(parseInterval("2024-03-03/")).toEqual(since);
+  });
+
+  it("reads durations counting whole days", () => {
+    expect(formatInterval(parseInterval("P7D/2024-01-31")!)).toBe(
+      "2024-01-25/2024-01-31"
+    );
+    expect(formatInterval(parseInterval("2024-01-01/P1M")!)).toBe(
+      "2024-01-01/2024-01-31"
+    );
+  });
+
+  it("rejects invalid intervals", () => {
+    expect(parseInterval("2024-02-30/2024-03-01")).toBeUndefined();
+    expect(parseInterval("2024-01-31/2024-01-01")).toBeUndefined();
+    expect(parseInterval("P1D/P2D")).toBeUndefined();
+    expect(parseInterval("last week")).toBeUndefined();
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  add,
+  addDays,
+  endOfDay,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  sub,
+  subMilliseconds,
+} from "date-fns";
+import type { Duration } from "date-fns";
+import { TZDate } from "@date-fns/tz";
+import type { DateRange } from "react-day-picker";
+
+import {
+  DateRangeNormalization,
+  normalizeDateRange,
+  toInclusiveDateRange,
+} from "@/registry/new-york/lib/normalize-date-range";
+
+/**
+ * Options for formatInterval and parseInterval
+ */
+export interface IntervalOptions {
+  /**
+   * IANA time zone whose days date-only ends refer to, and whose wall-clock
+   * time date-times without an offset are read in. Defaults to the local
+   * zone, which may differ between server and browser.
+   */
+  timeZone?: string;
+  /**
+   * The picker's normalization: parseInterval returns ranges normalized
+   * this way and formatInterval reads them so. Defaults to "raw".
+   */
+  normalization?: DateRangeNormalization;
+}
+
+/**
+ * Options for formatInterval
+ */
+export interface FormatIntervalOptions extends IntervalOptions {
+  /**
+   * "date" writes calendar dates ("2024-01-01/2024-01-31"), "date-time"
+   * exact date-times, and "auto" (the default) dates for whole-day ranges
+   * and date-times otherwise
+   */
+  representation?: "auto" | "date" | "date-time";
+}
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// A date-time without "Z" or an offset, e.g. "2024-03-03T10:00"
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2})(?::(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?$/;
+
+const DURATION_PATTERN =
+  /^P(?!$)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?!$)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
+
+// ISO 8601-2 marks an unbounded end with ".." or leaves it empty
+const OPEN_END = "..";
+
+const inZone = (date: Date, timeZone?: string): Date =>
+  timeZone ? new TZDate(date, timeZone) : date;
+
+/**
+ * Parses a date ("2024-01-31") or date-time; date-only values are midnight
+ * in `timeZone` and flagged so the caller can widen them to the whole day.
+ * Date-times without an offset are wall-clock time in `timeZone`.
+ */
+const parseDateTime = (
+  text: string,
+  timeZone?: string
+): { date: Date; isDateOnly: boolean } | undefined => {
+  const dateOnly = text.match(DATE_ONLY_PATTERN);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const date = timeZone
+      ? new TZDate(year, month - 1, day, timeZone)
+      : new Date(year, month - 1, day);
+    // Rejects overflowing dates such as "2024-02-30"
+    if (!isValid(date) || date.getDate() !== day) return undefined;
+    return { date, isDateOnly: true };
+  }
+  const date = parseISO(text);
+  if (!isValid(date)) return undefined;
+  const wallClock = timeZone && text.match(LOCAL_DATE_TIME_PATTERN);
+  if (wallClock) {
+    const [year, month, day, hours, minutes, seconds] = wallClock
+      .slice(1, 7)
+      .map((part) => Number(part ?? 0));
+    // Fractions of a second, cut to milliseconds
+    const milliseconds = Number(
+      (wallClock[7] ?? "").slice(0, 3).padEnd(3, "0")
+    );
+    return {
+      date: new TZDate(
+        year,
+        month - 1,
+        day,
+        hours,
+        minutes,
+        seconds,
+        milliseconds,
+        timeZone
+      ),
+      isDateOnly: false,
+    };
+  }
+  return { date: inZone(date, timeZone), isDateOnly: false };
+};
+
+/**
+ * Parses an ISO 8601 duration such as "P7D", "P1M" or "PT12H"
+ */
+const parseDuration = (text: string): Duration | undefined => {
+  const match = text.match(DURATION_PATTERN);
+  if (!match) return undefined;
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => (part ? Number(part.replace(",", ".")) : undefined));
+  return { years, months, weeks, days, hours, minutes, seconds };
+};
+
+/**
+ * Whether a range covers whole days: it starts at midnight and ends at the
+ * end of a day, or at midnight as the calendar's own picks do
+ */
+const isWholeDays = ({ from, to }: DateRange): boolean =>
+  (!from || from.getTime() === startOfDay(from).getTime()) &&
+  (!to ||
+    to.getTime() === endOfDay(to).getTime() ||
+    to.getTime() === startOfDay(to).getTime());
+
+/**
+ * Formats a range as an ISO 8601 interval: "2024-01-01/2024-01-31" for
+ * whole days, date-times otherwise, and ".." for a missing end. Ends are
+ * inclusive, matching the picker: "2024-01-01/2024-01-31" covers all of
+ * January 31. parseInterval reads the result back.
+ */
+export function formatInterval(
+  range: DateRange,
+  {
+    timeZone,
+    normalization = "raw",
+    representation = "auto",
+  }: FormatIntervalOptions = {}
+): string {
+  const inclusive = toInclusiveDateRange(range, normalization);
+  const from = inclusive.from && inZone(inclusive.from, timeZone);
+  const to = inclusive.to && inZone(inclusive.to, timeZone);
+  const isDate =
+    representation === "date" ||
+    (representation === "auto" && isWholeDays({ from, to }));
+  const formatEnd = (date: Date | undefined) => {
+    if (!date) return OPEN_END;
+    return isDate ? format(date, "yyyy-MM-dd") : date.toISOString();
+  };
+  return `${formatEnd(from)}/${formatEnd(to)}`;
+}
+
+/**
+ * Reads an interval with inclusive ends, before normalization
+ */
+const readInterval = (
+  text: string,
+  timeZone?: string
+): DateRange | undefined => {
+  const parts = text.trim().split("/");
+  if (parts.length !== 2) return undefined;
+  const [startText, endText] = parts;
+  const isOpen = (part: string) => part === "" || part === OPEN_END;
+
+  const startDuration = parseDuration(startText);
+  const endDuration = parseDuration(endText);
+  if (startDuration && endDuration) return undefined;
+
+  if (startDuration) {
+    const end = parseDateTime(endText, timeZone);
+    if (!end) return undefined;
+    // Count back from the next midnight, so a date-only end counts in full
+    const endInstant = end.isDateOnly
+      ? startOfDay(addDays(end.date, 1))
+      : end.date;
+    return {
+      from: sub(endInstant, startDuration),
+      to: end.isDateOnly ? endOfDay(end.date) : end.date,
+    };
+  }
+
+  const start = isOpen(startText)
+    ? undefined
+    : parseDateTime(startText, timeZone);
+  if (!start && !isOpen(startText)) return undefined;
+
+  if (endDuration) {
+    if (!start) return undefined;
+    const endInstant = add(start.date, endDuration);
+    return {
+      from: start.date,
+      to: start.isDateOnly ? subMilliseconds(endInstant, 1) : endInstant,
+    };
+  }
+
+  const end = isOpen(endText) ? undefined : parseDateTime(endText, timeZone);
+  if (!end && !isOpen(endText)) return undefined;
+  const range: DateRange = {
+    from: start?.date,
+    to: end && (end.isDateOnly ? endOfDay(end.date) : end.date),
+  };
+  return range.from && range.to && range.from > range.to ? undefined : range;
+};
+
+/**
+ * Parses an ISO 8601 interval into a range, or returns undefined when the
+ * text is not one. Accepts:
+ *
+ * - `start/end`: "2024-01-01/2024-01-31" or date-times
+ * - `duration/end` and `start/duration`: "P7D/2024-01-31", "2024-01-01/P1M"
+ * - open ends: "2024-01-01/..", "../2024-01-31" (or an empty end)
+ *
+ * Ends are inclusive. A date-only end covers its whole day, so the range
+ * ends at 23:59:59.999 that day, while a date-time end is taken as is, in
+ * `timeZone` when it has no offset. A
+ * duration anchored on a date counts whole days: "P7D/2024-01-31" is
+ * January 25 through 31, and "2024-01-01/P7D" January 1 through 7. Pass
+ * `normalization` to get ranges shaped like the picker's values.
+ */
+export function parseInterval(
+  text: string,
+  { timeZone, normalization = "raw" }: IntervalOptions = {}
+): DateRange | undefined {
+  const range = readInterval(text, timeZone);
+  return range && normalizeDateRange(range, normalization, { timeZone });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { dateRangeSchema } from "@/registry/new-york/lib/date-range-schema";
+
+describe("dateRangeSchema with allowOpenEnded", () => {
+  const schema = dateRangeSchema({ allowOpenEnded: true });
+
+  it("accepts intervals with an open end", () => {
+    expect(schema.parse("2024-03-03T00:00:00.000-05:00/..")).toEqual({
+      from: new Date("2024-03-03T05:00:00.000Z"),
+      to: undefined,
+    });
+    expect(schema.parse("../2024-03-03T23:59:59.999Z")).toEqual({
+      from: undefined,
+      to: new Date("2024-03-03T23:59:59.999Z"),
+    });
+  });
+
+  it("accepts empty start and end fields", () => {
+    expect(schema.parse({ from: "", to: "2024-03-03T12:00:00.000Z" })).toEqual({
+      from: undefined,
+      to: new Date("2024-03-03T12:00:00.000Z"),
+    });
+  });
+
+  it("requires at least one end", () => {
+    expect(schema.safeParse("../..").error?.issues[0].message).toBe(
+      "Select a date range"
+    );
+    expect(schema.safeParse({ from: "", to: "" }).success).toBe(false);
+  });
+
+  it("checks the constraints at the end that is present", () => {
+    const bounded = dateRangeSchema({
+      allowOpenEnded: true,
+      minDate: new Date(2024, 0, 1),
+    });
+
+    expect(bounded.safeParse("2023-12-31/..").error?.issues[0].path).toEqual([
+      "from",
+    ]);
+    expect(bounded.safeParse("2024-01-01/..").success).toBe(true);
+  });
+
+  it("rejects open ends without the option", () => {
+    expect(
+      dateRangeSchema().safeParse("2024-03-03/..").error?.issues[0]
+    ).toMatchObject({ path: ["to"], message: "Select a date range" });
+  });
+});
@@ -0,0 +1,318 @@
+import { format } from "date-fns";
+import type { Matcher } from "react-day-picker";
+import { z } from "zod";
+
+import {
+  DateRangeConstraints,
+  DateRangeIssue,
+  getDateRangeIssues,
+} from "@/registry/new-york/lib/date-range-constraints";
+import { parseInterval } from "@/registry/new-york/lib/date-range-interval";
+import {
+  DateRangeNormalization,
+  normalizeDateRange,
+} from "@/registry/new-york/lib/normalize-date-range";
+
+/**
+ * Field error messages reported by dateRangeSchema
+ */
+export interface DateRangeSchemaMessages {
+  /** The range or one of its ends is missing */
+  required: string;
+  /** An end is not a valid date */
+  invalidDate: string;
+  /** The range ends before it starts */
+  invalidOrder: string;
+  minDate: (minDate: Date) => string;
+  maxDate: (maxDate: Date) => string;
+  /** An end falls on a blocked date */
+  disabledEndpoint: (date: Date) => string;
+  minDays: (minDays: number, days: number) => string;
+  maxDays: (maxDays: number, days: number) => string;
+  /** The range spans a blocked date while `allowDisabledInRange` is false */
+  containsDisabled: string;
+}
+
+/**
+ * Default English messages; override any subset through `messages`
+ */
+export const defaultDateRangeSchemaMessages: DateRangeSchemaMessages = {
+  required: "Select a date range",
+  invalidDate: "Enter a valid date",
+  invalidOrder: "End date must be on or after the start date",
+  minDate: (minDate) =>
+    `Start date must be on or after ${format(minDate, "PP")}`,
+  maxDate: (maxDate) =>
+    `End date must be on or before ${format(maxDate, "PP")}`,
+  disabledEndpoint: (date) => `${format(date, "PP")} is unavailable`,
+  minDays: (minDays, days) =>
+    `Select at least ${minDays} days (${days} selected)`,
+  maxDays: (maxDays, days) =>
+    `Select at most ${maxDays} days (${days} selected)`,
+  containsDisabled: "The range includes unavailable dates",
+};
+
+/**
+ * Options for dateRangeSchema: the picker's constraints plus messages
+ */
+export interface DateRangeSchemaOptions extends DateRangeConstraints {
+  /** IANA time zone whose days the date bounds and lengths are counted in */
+  timeZone?: string;
+  /**
+   * How to normalize the parsed range, e.g. "half-open" for `from <= t < to`
+   * queries (defaults to "raw"). Input ends are inclusive either way.
+   */
+  normalization?: DateRangeNormalization;
+  /**
+   * Accepts ranges missing one end, such as "2024-03-03/.." or an empty
+   * `startName`/`endName` field, like the picker's `allowOpenEnded`
+   */
+  allowOpenEnded?: boolean;
+  /** Custom field error messages */
+  messages?: Partial<DateRangeSchemaMessages>;
+}
+
+/**
+ * Parsed ends: both, or with `allowOpenEnded` at least one
+ */
+type DateRangeSchemaRange<OpenEnded extends boolean> = OpenEnded extends true
+  ? { from?: Date; to?: Date }
+  : { from: Date; to: Date };
+
+/**
+ * Chainable bounds, mirroring `z.date().min()` and `.max()`
+ */
+interface DateRangeSchemaMethods<OpenEnded extends boolean> {
+  /** Requires the range to start on or after the given day */
+  min: (minDate: Date, message?: string) => DateRangeSchema<OpenEnded>;
+  /** Requires the range to end on or before the given day */
+  max: (maxDate: Date, message?: string) => DateRangeSchema<OpenEnded>;
+  /** Requires at least this many days, inclusive of both ends */
+  minDays: (minDays: number, message?: string) => DateRangeSchema<OpenEnded>;
+  /** Allows at most this many days, inclusive of both ends */
+  maxDays: (maxDays: number, message?: string) => DateRangeSchema<OpenEnded>;
+  /**
+   * Rejects ranges starting or ending on blocked dates, and with
+   * `allowInRange: false` also ranges spanning them
+   */
+  disabledDates: (
+    disabledDates: Matcher | Matcher[],
+    options?: { allowInRange?: boolean; message?: string }
+  ) => DateRangeSchema<OpenEnded>;
+}
+
+export type DateRangeSchema<OpenEnded extends boolean = false> = ReturnType<
+  typeof createSchema<OpenEnded>
+> &
+  DateRangeSchemaMethods<OpenEnded>;
+
+/**
+ * Parsed range, in order and with both ends present, or with
+ * `allowOpenEnded` at least one
+ */
+export type DateRangeSchemaOutput<OpenEnded extends boolean = false> = z.output<
+  DateRangeSchema<OpenEnded>
+>;
+
+/**
+ * Reads an ISO 8601 interval such as "2024-01-01/2024-01-31" or
+ * "P7D/2024-01-31" into its ends; unreadable text fails as an invalid date.
+ * String ends of a `{ from, to }` object are read the same way, so a
+ * date-only `from` starts its day and a date-only `to` ends it, in
+ * `timeZone` or the local zone.
+ */
+const readInterval = (input: unknown, timeZone?: string): unknown => {
+  if (input === null || input === "") return undefined;
+  if (typeof input === "string") {
+    return input.includes("/")
+      ? (parseInterval(input, { timeZone }) ?? input)
+      : input;
+  }
+  if (typeof input !== "object") return input;
+  const { from, to } = input as { from?: unknown; to?: unknown };
+  return {
+    ...input,
+    from:
+      typeof from === "string"
+        ? (parseInterval(`${from}/..`, { timeZone })?.from ?? from)
+        : from,
+    to:
+      typeof to === "string"
+        ? (parseInterval(`../${to}`, { timeZone })?.to ?? to)
+        : to,
+  };
+};
+
+const getIssueMessage = (
+  issue: DateRangeIssue,
+  messages: DateRangeSchemaMessages
+): string => {
+  switch (issue.code) {
+    case "invalid-order":
+      return messages.invalidOrder;
+    case "before-min-date":
+      return messages.minDate(issue.minDate);
+    case "after-max-date":
+      return messages.maxDate(issue.maxDate);
+    case "disabled-endpoint":
+      return messages.disabledEndpoint(issue.date);
+    case "too-short":
+      return messages.minDays(issue.minDays, issue.days);
+    case "too-long":
+      return messages.maxDays(issue.maxDays, issue.days);
+    case "contains-disabled":
+      return messages.containsDisabled;
+  }
+};
+
+// Attach end-specific errors to that end, the rest to the range itself
+const getIssuePath = (
+  issue: DateRangeIssue,
+  range: { from?: Date; to?: Date }
+): string[] => {
+  switch (issue.code) {
+    case "before-min-date":
+      return ["from"];
+    case "invalid-order":
+    case "after-max-date":
+      return ["to"];
+    case "disabled-endpoint":
+      return [issue.date.getTime() === range.from?.getTime() ? "from" : "to"];
+    default:
+      return [];
+  }
+};
+
+const createSchema = <OpenEnded extends boolean>({
+  messages: messagesOption,
+  timeZone,
+  normalization = "raw",
+  allowOpenEnded,
+  ...constraints
+}: DateRangeSchemaOptions & { allowOpenEnded?: OpenEnded }) => {
+  const messages = { ...defaultDateRangeSchemaMessages, ...messagesOption };
+
+  // Dates, timestamps or ISO strings; empty form fields and ".." count as
+  // missing
+  const date = z
+    .union([z.date(), z.string(), z.number()], {
+      errorMap: () => ({ message: messages.required }),
+    })
+    .pipe(
+      z.coerce.date({ errorMap: () => ({ message: messages.invalidDate }) })
+    );
+  const endpoint = z.preprocess(
+    (input) =>
+      input === null || input === "" || input === ".." ? undefined : input,
+    allowOpenEnded ? date.optional() : date
+  );
+
+  return z
+    .preprocess(
+      (input) => readInterval(input, timeZone),
+      z.object(
+        { from: endpoint, to: endpoint },
+        {
+          errorMap: (issue) => ({
+            message:
+              issue.code === z.ZodIssueCode.invalid_type &&
+              issue.received === "string"
+                ? messages.invalidDate
+                : messages.required,
+          }),
+        }
+      )
+    )
+    .superRefine((range, ctx) => {
+      // An open-ended range still needs one end
+      if (!range.from && !range.to) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: messages.required,
+        });
+        return;
+      }
+      for (const issue of getDateRangeIssues(range, constraints, timeZone)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: getIssueMessage(issue, messages),
+          path: getIssuePath(issue, range),
+        });
+      }
+    })
+    .transform((range) => {
+      const { from, to } = normalizeDateRange(
+        { from: range.from, to: range.to },
+        normalization,
+        { timeZone }
+      );
+      return {
+        from: from ?? range.from,
+        to: to ?? range.to,
+      } as DateRangeSchemaRange<OpenEnded>;
+    });
+};
+
+/**
+ * Zod schema for a date range, for forms, API routes and server actions.
+ * Accepts `{ from, to }` with Dates, timestamps or ISO strings, or an ISO
+ * 8601 interval (see parseInterval) such as the one a picker with `name`
+ * submits. With `allowOpenEnded`, either end may be left out. Takes the
+ * same constraints as the DateRangePicker props:
+ *
+ * ```ts
+ * const constraints = { maxDays: 92, disabledDates: { dayOfWeek: [0, 6] } };
+ * <DateRangePicker {...constraints} />
+ * dateRangeSchema(constraints).parse(formData.get("period"));
+ * ```
+ */
+export function dateRangeSchema<OpenEnded extends boolean = false>(
+  options: DateRangeSchemaOptions & { allowOpenEnded?: OpenEnded } = {}
+): DateRangeSchema<OpenEnded> {
+  const withMessage = (
+    key: keyof DateRangeSchemaMessages,
+    message: string | undefined
+  ): Partial<DateRangeSchemaMessages> =>
+    message === undefined
+      ? {}
+      : {
+          [key]:
+            typeof defaultDateRangeSchemaMessages[key] === "string"
+              ? message
+              : () => message,
+        };
+  const extend = (
+    constraints: DateRangeConstraints,
+    messages: Partial<DateRangeSchemaMessages>
+  ) =>
+    dateRangeSchema({
+      ...options,
+      ...constraints,
+      messages: { ...options.messages, ...messages },
+    });
+
+  return Object.assign(createSchema(options), {
+    min: (minDate: Date, message?: string) =>
+      extend({ minDate }, withMessage("minDate", message)),
+    max: (maxDate: Date, message?: string) =>
+      extend({ maxDate }, withMessage("maxDate", message)),
+    minDays: (minDays: number, message?: string) =>
+      extend({ minDays }, withMessage("minDays", message)),
+    maxDays: (maxDays: number, message?: string) =>
+      extend({ maxDays }, withMessage("maxDays", message)),
+    disabledDates: (
+      disabledDates: Matcher | Matcher[],
+      {
+        allowInRange = true,
+        message,
+      }: { allowInRange?: boolean; message?: string } = {}
+    ) =>
+      extend(
+        { disabledDates, allowDisabledInRange: allowInRange },
+        {
+          ...withMessage("disabledEndpoint", message),
+          ...withMessage("containsDisabled", message),
+        }
+      ),
+  });
+}
@@ -0,0 +1,148 @@
+import {
+  formatInterval,
+  parseInterval,
+} from "@/registry/new-york/lib/date-range-interval";
+import type { DateRangeValue } from "@/registry/new-york/lib/date-range-types";
+import type { DateRangeNormalization } from "@/registry/new-york/lib/normalize-date-range";
+
+/**
+ * Where a date range lives in the URL. Relative values are written as the
+ * preset id (`?range=last-7-days`); absolute ranges as an ISO 8601 interval
+ * (`?range=2024-01-01/2024-01-31`, see formatInterval) or, with
+ * `startParam` and `endParam`, as two dates (`?from=2024-01-01&to=2024-01-31`).
+ */
+export interface DateRangeSearchParamsOptions {
+  /** Param holding the interval or preset id (defaults to "range") */
+  param?: string;
+  /** Param for the start, e.g. "from"; used together with `endParam` */
+  startParam?: string;
+  /** Param for the end, e.g. "to"; used together with `startParam` */
+  endParam?: string;
+  /** Value when the URL has no valid range */
+  defaultValue?: DateRangeValue;
+  /** Preset ids accepted from the URL; others fall back to the default */
+  presetIds?: string[];
+  /**
+   * IANA time zone for date-only params such as "2024-01-01". Defaults to
+   * the local zone, which may differ between server and browser.
+   */
+  timeZone?: string;
+  /** The picker's `normalization`, so ends keep their meaning (defaults to "raw") */
+  normalization?: DateRangeNormalization;
+  /**
+   * The picker's `allowOpenEnded`: ranges missing an end are read and
+   * written ("2024-03-03/..", or only the start param) rather than dropped
+   */
+  allowOpenEnded?: boolean;
+}
+
+/**
+ * Search params as URLSearchParams, or the `searchParams` record a
+ * Next.js page receives
+ */
+export type DateRangeSearchParamsInput =
+  Pick<URLSearchParams, "get"> | Record<string, string | string[] | undefined>;
+
+const readParam = (
+  searchParams: DateRangeSearchParamsInput,
+  name: string
+): string | undefined => {
+  if (typeof searchParams.get === "function") {
+    return (
+      (searchParams as Pick<URLSearchParams, "get">).get(name) ?? undefined
+    );
+  }
+  const value = (searchParams as Record<string, string | string[] | undefined>)[
+    name
+  ];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Reads a picker value from search params, falling back to `defaultValue`.
+ * Works with `useSearchParams()` and with the awaited `searchParams` of a
+ * server component, so both parse the URL the same way.
+ */
+export function parseDateRangeSearchParams(
+  searchParams: DateRangeSearchParamsInput,
+  options: DateRangeSearchParamsOptions = {}
+): DateRangeValue | undefined {
+  const {
+    param = "range",
+    startParam,
+    endParam,
+    defaultValue,
+    presetIds,
+    timeZone,
+    normalization,
+    allowOpenEnded = false,
+  } = options;
+
+  const text = readParam(searchParams, param);
+  const start = startParam && readParam(searchParams, startParam);
+  const end = endParam && readParam(searchParams, endParam);
+
+  if (text && !text.includes("/")) {
+    const isKnown = !presetIds || presetIds.includes(text);
+    return isKnown ? { kind: "relative", presetId: text } : defaultValue;
+  }
+  const interval =
+    text ||
+    ((start && end) || (allowOpenEnded && (start || end))
+      ? `${start || ".."}/${end || ".."}`
+      : undefined);
+  const range = interval
+    ? parseInterval(interval, { timeZone, normalization })
+    : undefined;
+  const isComplete = !!range?.from && !!range.to;
+  const isOpenEnded = allowOpenEnded && !!(range?.from || range?.to);
+  if (!range || !(isComplete || isOpenEnded)) return defaultValue;
+  return { kind: "absolute", range };
+}
+
+/**
+ * Returns a copy of `searchParams` with the value written in, or removed
+ * when undefined. Other params are kept.
+ */
+export function writeDateRangeSearchParams(
+  searchParams: DateRangeSearchParamsInput | string,
+  value: DateRangeValue | undefined,
+  options: DateRangeSearchParamsOptions = {}
+): URLSearchParams {
+  const {
+    param = "range",
+    startParam,
+    endParam,
+    timeZone,
+    normalization,
+    allowOpenEnded = false,
+  } = options;
+  const next = new URLSearchParams(
+    typeof searchParams === "string" || searchParams instanceof URLSearchParams
+      ? searchParams
+      : Object.entries(searchParams).flatMap(([name, values]) =>
+          [values ?? []].flat().map((item) => [name, item])
+        )
+  );
+  next.delete(param);
+  if (startParam) next.delete(startParam);
+  if (endParam) next.delete(endParam);
+
+  if (value?.kind === "relative") {
+    next.set(param, value.presetId);
+  } else if (
+    (value?.range.from && value.range.to) ||
+    (allowOpenEnded && (value?.range.from || value?.range.to))
+  ) {
+    const interval = formatInterval(value.range, { timeZone, normalization });
+    if (startParam && endParam) {
+      // An open end leaves its param out
+      const [start, end] = interval.split("/");
+      if (start !== "..") next.set(startParam, start);
+      if (end !== "..") next.set(endParam, end);
+    } else {
+      next.set(param, interval);
+    }
+  }
+  return next;
+}
@@ -0,0 +1,28 @@
+import type { DateLib, DateRange } from "react-day-picker";
+
+/**
+ * Predefined date range option
+ */
+export interface PredefinedRange {
+  /** Stable identifier, referenced by relative values */
+  id: string;
+  /** Display label for the range option */
+  label: string;
+  /**
+   * Resolves the range relative to the given reference date. Use the date
+   * library's month and year helpers so boundaries follow the picker's
+   * calendar system.
+   */
+  resolve: (now: Date, dateLib: DateLib) => DateRange;
+  /** Optional description for accessibility */
+  description?: string;
+}
+
+/**
+ * Value emitted by the picker. Relative values reference a predefined range
+ * by id and resolve to concrete dates whenever they are read, so a persisted
+ * "Last 7 Days" never turns into a stale absolute window.
+ */
+export type DateRangeValue =
+  | { kind: "relative"; presetId: string }
+  | { kind: "absolute"; range: DateRange };
@@ -0,0 +1,180 @@
+import {
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  set,
+  startOfDay,
+  startOfWeek,
+  subDays,
+  subMilliseconds,
+} from "date-fns";
+
+import type { PredefinedRange } from "@/registry/new-york/lib/date-range-types";
+
+/**
+ * Weeks in each month of a fiscal quarter, e.g. "4-4-5"
+ */
+export type FiscalWeekPattern = "4-4-5" | "4-5-4" | "5-4-4";
+
+/**
+ * Fiscal periods: months, quarters and years
+ */
+export type FiscalPeriodUnit = "month" | "quarter" | "year";
+
+/**
+ * A fiscal calendar, e.g. years starting in February with 4-4-5 quarters.
+ * Fiscal years are named after the calendar year they end in, so the year
+ * from February 2024 to January 2025 is FY2025.
+ */
+export interface FiscalCalendar {
+  /** Month the fiscal year starts in, from 0 (January) to 11; defaults to 0 */
+  startMonth?: number;
+  /**
+   * Weeks per month in each quarter. With a pattern, fiscal years are
+   * whole weeks starting on the `weekStartsOn` day nearest the first of
+   * `startMonth`, and a 53rd week joins the last month. Without one, fiscal
+   * months are calendar months.
+   */
+  weekPattern?: FiscalWeekPattern;
+  /** First day of fiscal weeks (0 - Sunday); defaults to 0 */
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+/**
+ * Start of the fiscal year beginning in a calendar year, at midnight in the
+ * reference date's zone
+ */
+const getYearStart = (
+  reference: Date,
+  year: number,
+  { startMonth = 0, weekPattern, weekStartsOn = 0 }: FiscalCalendar
+): Date => {
+  const first = startOfDay(
+    set(reference, { year, month: startMonth, date: 1 })
+  );
+  if (!weekPattern) return first;
+  const weekStart = startOfWeek(first, { weekStartsOn });
+  return differenceInCalendarDays(first, weekStart) > 3
+    ? addWeeks(weekStart, 1)
+    : weekStart;
+};
+
+/**
+ * The fiscal year holding a date: the starts of its twelve months followed
+ * by the next year's start, and the year it is named after
+ */
+const getFiscalYearBounds = (
+  date: Date,
+  fiscal: FiscalCalendar
+): { year: number; boundaries: Date[] } => {
+  // Week-based years can start a few days before or after the first
+  let startYear = date.getFullYear();
+  if (date < getYearStart(date, startYear, fiscal)) {
+    startYear -= 1;
+  } else if (date >= getYearStart(date, startYear + 1, fiscal)) {
+    startYear += 1;
+  }
+  const start = getYearStart(date, startYear, fiscal);
+  const pattern = fiscal.weekPattern?.split("-").map(Number);
+  const boundaries = Array.from({ length: 12 }, (_, month) => {
+    if (!pattern) return addMonths(start, month);
+    const weeks =
+      Math.floor(month / 3) * 13 +
+      pattern.slice(0, month % 3).reduce((sum, count) => sum + count, 0);
+    return addWeeks(start, weeks);
+  });
+  boundaries.push(getYearStart(date, startYear + 1, fiscal));
+  const year = (fiscal.startMonth ?? 0) === 0 ? startYear : startYear + 1;
+  return { year, boundaries };
+};
+
+/**
+ * Returns the fiscal month, quarter or year containing a date, from
+ * midnight on its first day to the end of its last
+ */
+export function getFiscalPeriodRange(
+  date: Date,
+  unit: FiscalPeriodUnit,
+  fiscal: FiscalCalendar = {}
+): { from: Date; to: Date } {
+  const { boundaries } = getFiscalYearBounds(date, fiscal);
+  const month = boundaries.filter((boundary) => boundary <= date).length - 1;
+  const months = unit === "year" ? 12 : unit === "quarter" ? 3 : 1;
+  const first = Math.floor(month / months) * months;
+  return {
+    from: boundaries[first],
+    to: subMilliseconds(boundaries[first + months], 1),
+  };
+}
+
+/**
+ * Returns the fiscal year a date falls in, e.g. 2025 for FY2025
+ */
+export function getFiscalYear(date: Date, fiscal: FiscalCalendar = {}): number {
+  return getFiscalYearBounds(date, fiscal).year;
+}
+
+/**
+ * Returns the fiscal quarter a date falls in, from 1 to 4
+ */
+export function getFiscalQuarter(
+  date: Date,
+  fiscal: FiscalCalendar = {}
+): number {
+  const { boundaries } = getFiscalYearBounds(date, fiscal);
+  const month = boundaries.filter((boundary) => boundary <= date).length - 1;
+  return Math.floor(month / 3) + 1;
+}
+
+/**
+ * Presets for a fiscal calendar: the current and previous fiscal month and
+ * quarter, fiscal year to date and the last fiscal year
+ */
+export function getFiscalPredefinedRanges(
+  fiscal: FiscalCalendar = {}
+): PredefinedRange[] {
+  const period = (date: Date, unit: FiscalPeriodUnit) =>
+    getFiscalPeriodRange(date, unit, fiscal);
+  // The day before a period starts falls in the one before it
+  const previous = (now: Date, unit: FiscalPeriodUnit) =>
+    period(subDays(period(now, unit).from, 1), unit);
+
+  return [
+    {
+      id: "this-fiscal-month",
+      label: "This Fiscal Month",
+      resolve: (now) => period(now, "month"),
+      description: "Select the current fiscal month",
+    },
+    {
+      id: "last-fiscal-month",
+      label: "Last Fiscal Month",
+      resolve: (now) => previous(now, "month"),
+      description: "Select the previous fiscal month",
+    },
+    {
+      id: "this-fiscal-quarter",
+      label: "This Fiscal Quarter",
+      resolve: (now) => period(now, "quarter"),
+      description: "Select the current fiscal quarter",
+    },
+    {
+      id: "last-fiscal-quarter",
+      label: "Last Fiscal Quarter",
+      resolve: (now) => previous(now, "quarter"),
+      description: "Select the previous fiscal quarter",
+    },
+    {
+      id: "fiscal-year-to-date",
+      label: "FYTD",
+      resolve: (now) => ({ from: period(now, "year").from, to: now }),
+      description: "Select the fiscal year to date",
+    },
+    {
+      id: "last-fiscal-year",
+      label: "Last Fiscal Year",
+      resolve: (now) => previous(now, "year"),
+      description: "Select the previous fiscal year",
+    },
+  ];
+}
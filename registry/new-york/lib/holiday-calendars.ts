@@ -0,0 +1,189 @@
+import type { HolidayCalendar } from "@/registry/new-york/lib/business-days";
+
+/**
+ * Public holidays for a few countries, 2025 through 2028, keyed by ISO 3166
+ * country code. The dates are the days off, so holidays falling on a weekend
+ * move to the weekday they are observed on where the country does so. Pass
+ * your own HolidayCalendar for other countries, regions or years.
+ */
+export const holidayCalendars: Record<
+  "US" | "GB" | "DE" | "FR",
+  HolidayCalendar
+> = {
+  /** United States federal holidays */
+  US: {
+    holidays: [
+      { date: "2025-01-01", name: "New Year's Day" },
+      { date: "2025-01-20", name: "Martin Luther King Jr. Day" },
+      { date: "2025-02-17", name: "Washington's Birthday" },
+      { date: "2025-05-26", name: "Memorial Day" },
+      { date: "2025-06-19", name: "Juneteenth" },
+      { date: "2025-07-04", name: "Independence Day" },
+      { date: "2025-09-01", name: "Labor Day" },
+      { date: "2025-10-13", name: "Columbus Day" },
+      { date: "2025-11-11", name: "Veterans Day" },
+      { date: "2025-11-27", name: "Thanksgiving Day" },
+      { date: "2025-12-25", name: "Christmas Day" },
+      { date: "2026-01-01", name: "New Year's Day" },
+      { date: "2026-01-19", name: "Martin Luther King Jr. Day" },
+      { date: "2026-02-16", name: "Washington's Birthday" },
+      { date: "2026-05-25", name: "Memorial Day" },
+      { date: "2026-06-19", name: "Juneteenth" },
+      { date: "2026-07-03", name: "Independence Day" },
+      { date: "2026-09-07", name: "Labor Day" },
+      { date: "2026-10-12", name: "Columbus Day" },
+      { date: "2026-11-11", name: "Veterans Day" },
+      { date: "2026-11-26", name: "Thanksgiving Day" },
+      { date: "2026-12-25", name: "Christmas Day" },
+      { date: "2027-01-01", name: "New Year's Day" },
+      { date: "2027-01-18", name: "Martin Luther King Jr. Day" },
+      { date: "2027-02-15", name: "Washington's Birthday" },
+      { date: "2027-05-31", name: "Memorial Day" },
+      { date: "2027-06-18", name: "Juneteenth" },
+      { date: "2027-07-05", name: "Independence Day" },
+      { date: "2027-09-06", name: "Labor Day" },
+      { date: "2027-10-11", name: "Columbus Day" },
+      { date: "2027-11-11", name: "Veterans Day" },
+      { date: "2027-11-25", name: "Thanksgiving Day" },
+      { date: "2027-12-24", name: "Christmas Day" },
+      { date: "2027-12-31", name: "New Year's Day" },
+      { date: "2028-01-17", name: "Martin Luther King Jr. Day" },
+      { date: "2028-02-21", name: "Washington's Birthday" },
+      { date: "2028-05-29", name: "Memorial Day" },
+      { date: "2028-06-19", name: "Juneteenth" },
+      { date: "2028-07-04", name: "Independence Day" },
+      { date: "2028-09-04", name: "Labor Day" },
+      { date: "2028-10-09", name: "Columbus Day" },
+      { date: "2028-11-10", name: "Veterans Day" },
+      { date: "2028-11-23", name: "Thanksgiving Day" },
+      { date: "2028-12-25", name: "Christmas Day" },
+    ],
+  },
+  /** England and Wales bank holidays */
+  GB: {
+    holidays: [
+      { date: "2025-01-01", name: "New Year's Day" },
+      { date: "2025-04-18", name: "Good Friday" },
+      { date: "2025-04-21", name: "Easter Monday" },
+      { date: "2025-05-05", name: "Early May Bank Holiday" },
+      { date: "2025-05-26", name: "Spring Bank Holiday" },
+      { date: "2025-08-25", name: "Summer Bank Holiday" },
+      { date: "2025-12-25", name: "Christmas Day" },
+      { date: "2025-12-26", name: "Boxing Day" },
+      { date: "2026-01-01", name: "New Year's Day" },
+      { date: "2026-04-03", name: "Good Friday" },
+      { date: "2026-04-06", name: "Easter Monday" },
+      { date: "2026-05-04", name: "Early May Bank Holiday" },
+      { date: "2026-05-25", name: "Spring Bank Holiday" },
+      { date: "2026-08-31", name: "Summer Bank Holiday" },
+      { date: "2026-12-25", name: "Christmas Day" },
+      { date: "2026-12-28", name: "Boxing Day" },
+      { date: "2027-01-01", name: "New Year's Day" },
+      { date: "2027-03-26", name: "Good Friday" },
+      { date: "2027-03-29", name: "Easter Monday" },
+      { date: "2027-05-03", name: "Early May Bank Holiday" },
+      { date: "2027-05-31", name: "Spring Bank Holiday" },
+      { date: "2027-08-30", name: "Summer Bank Holiday" },
+      { date: "2027-12-27", name: "Christmas Day" },
+      { date: "2027-12-28", name: "Boxing Day" },
+      { date: "2028-01-03", name: "New Year's Day" },
+      { date: "2028-04-14", name: "Good Friday" },
+      { date: "2028-04-17", name: "Easter Monday" },
+      { date: "2028-05-01", name: "Early May Bank Holiday" },
+      { date: "2028-05-29", name: "Spring Bank Holiday" },
+      { date: "2028-08-28", name: "Summer Bank Holiday" },
+      { date: "2028-12-25", name: "Christmas Day" },
+      { date: "2028-12-26", name: "Boxing Day" },
+    ],
+  },
+  /** Germany's nationwide public holidays */
+  DE: {
+    holidays: [
+      { date: "2025-01-01", name: "New Year's Day" },
+      { date: "2025-04-18", name: "Good Friday" },
+      { date: "2025-04-21", name: "Easter Monday" },
+      { date: "2025-05-01", name: "Labour Day" },
+      { date: "2025-05-29", name: "Ascension Day" },
+      { date: "2025-06-09", name: "Whit Monday" },
+      { date: "2025-10-03", name: "German Unity Day" },
+      { date: "2025-12-25", name: "Christmas Day" },
+      { date: "2025-12-26", name: "Second Day of Christmas" },
+      { date: "2026-01-01", name: "New Year's Day" },
+      { date: "2026-04-03", name: "Good Friday" },
+      { date: "2026-04-06", name: "Easter Monday" },
+      { date: "2026-05-01", name: "Labour Day" },
+      { date: "2026-05-14", name: "Ascension Day" },
+      { date: "2026-05-25", name: "Whit Monday" },
+      { date: "2026-10-03", name: "German Unity Day" },
+      { date: "2026-12-25", name: "Christmas Day" },
+      { date: "2026-12-26", name: "Second Day of Christmas" },
+      { date: "2027-01-01", name: "New Year's Day" },
+      { date: "2027-03-26", name: "Good Friday" },
+      { date: "2027-03-29", name: "Easter Monday" },
+      { date: "2027-05-01", name: "Labour Day" },
+      { date: "2027-05-06", name: "Ascension Day" },
+      { date: "2027-05-17", name: "Whit Monday" },
+      { date: "2027-10-03", name: "German Unity Day" },
+      { date: "2027-12-25", name: "Christmas Day" },
+      { date: "2027-12-26", name: "Second Day of Christmas" },
+      { date: "2028-01-01", name: "New Year's Day" },
+      { date: "2028-04-14", name: "Good Friday" },
+      { date: "2028-04-17", name: "Easter Monday" },
+      { date: "2028-05-01", name: "Labour Day" },
+      { date: "2028-05-25", name: "Ascension Day" },
+      { date: "2028-06-05", name: "Whit Monday" },
+      { date: "2028-10-03", name: "German Unity Day" },
+      { date: "2028-12-25", name: "Christmas Day" },
+      { date: "2028-12-26", name: "Second Day of Christmas" },
+    ],
+  },
+  /** France's public holidays */
+  FR: {
+    holidays: [
+      { date: "2025-01-01", name: "New Year's Day" },
+      { date: "2025-04-21", name: "Easter Monday" },
+      { date: "2025-05-01", name: "Labour Day" },
+      { date: "2025-05-08", name: "Victory in Europe Day" },
+      { date: "2025-05-29", name: "Ascension Day" },
+      { date: "2025-06-09", name: "Whit Monday" },
+      { date: "2025-07-14", name: "Bastille Day" },
+      { date: "2025-08-15", name: "Assumption Day" },
+      { date: "2025-11-01", name: "All Saints' Day" },
+      { date: "2025-11-11", name: "Armistice Day" },
+      { date: "2025-12-25", name: "Christmas Day" },
+      { date: "2026-01-01", name: "New Year's Day" },
+      { date: "2026-04-06", name: "Easter Monday" },
+      { date: "2026-05-01", name: "Labour Day" },
+      { date: "2026-05-08", name: "Victory in Europe Day" },
+      { date: "2026-05-14", name: "Ascension Day" },
+      { date: "2026-05-25", name: "Whit Monday" },
+      { date: "2026-07-14", name: "Bastille Day" },
+      { date: "2026-08-15", name: "Assumption Day" },
+      { date: "2026-11-01", name: "All Saints' Day" },
+      { date: "2026-11-11", name: "Armistice Day" },
+      { date: "2026-12-25", name: "Christmas Day" },
+      { date: "2027-01-01", name: "New Year's Day" },
+      { date: "2027-03-29", name: "Easter Monday" },
+      { date: "2027-05-01", name: "Labour Day" },
+      { date: "2027-05-06", name: "Ascension Day" },
+      { date: "2027-05-08", name: "Victory in Europe Day" },
+      { date: "2027-05-17", name: "Whit Monday" },
+      { date: "2027-07-14", name: "Bastille Day" },
+      { date: "2027-08-15", name: "Assumption Day" },
+      { date: "2027-11-01", name: "All Saints' Day" },
+      { date: "2027-11-11", name: "Armistice Day" },
+      { date: "2027-12-25", name: "Christmas Day" },
+      { date: "2028-01-01", name: "New Year's Day" },
+      { date: "2028-04-17", name: "Easter Monday" },
+      { date: "2028-05-01", name: "Labour Day" },
+      { date: "2028-05-08", name: "Victory in Europe Day" },
+      { date: "2028-05-25", name: "Ascension Day" },
+      { date: "2028-06-05", name: "Whit Monday" },
+      { date: "2028-07-14", name: "Bastille Day" },
+      { date: "2028-08-15", name: "Assumption Day" },
+      { date: "2028-11-01", name: "All Saints' Day" },
+      { date: "2028-11-11", name: "Armistice Day" },
+      { date: "2028-12-25", name: "Christmas Day" },
+    ],
+  },
+};
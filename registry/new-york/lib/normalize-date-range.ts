@@ -0,0 +1,63 @@
+import { addDays, endOfDay, startOfDay, subMilliseconds } from "date-fns";
+import { TZDate } from "@date-fns/tz";
+import type { DateRange } from "react-day-picker";
+
+/**
+ * How a range's ends are stored and emitted:
+ *
+ * - "inclusive-day": 00:00 on the first day to 23:59:59.999 on the last
+ * - "half-open": 00:00 on the first day to 00:00 after the last day, which
+ *   is excluded, for `from <= t < to` filters
+ * - "raw": as picked or resolved, e.g. "Last 7 Days" ending at the current
+ *   time and calendar picks ending at midnight of their last day
+ */
+export type DateRangeNormalization = "inclusive-day" | "half-open" | "raw";
+
+/**
+ * Options for normalizeDateRange
+ */
+export interface NormalizeDateRangeOptions {
+  /** IANA time zone whose days the ends snap to; defaults to the local zone */
+  timeZone?: string;
+}
+
+/**
+ * Snaps a range to whole days. The last day is the one `to` falls on, as
+ * with the picker's presets and calendar picks; a missing end stays missing.
+ * Use the picker's normalization and time zone on the server, so filters
+ * cover exactly the days the user selected:
+ *
+ * ```ts
+ * const { from, to } = normalizeDateRange(range, "half-open", { timeZone });
+ * db.query("... WHERE created_at >= $1 AND created_at < $2", [from, to]);
+ * ```
+ */
+export function normalizeDateRange(
+  range: DateRange,
+  normalization: DateRangeNormalization = "inclusive-day",
+  { timeZone }: NormalizeDateRangeOptions = {}
+): DateRange {
+  if (normalization === "raw") return range;
+  const inZone = (date: Date) => (timeZone ? new TZDate(date, timeZone) : date);
+  const lastDay = range.to && inZone(range.to);
+  return {
+    from: range.from && startOfDay(inZone(range.from)),
+    to:
+      lastDay &&
+      (normalization === "half-open"
+        ? startOfDay(addDays(lastDay, 1))
+        : endOfDay(lastDay)),
+  };
+}
+
+/**
+ * Reverses half-open normalization, so `to` falls on the range's last day
+ * again; other ranges are returned unchanged
+ */
+export function toInclusiveDateRange(
+  range: DateRange,
+  normalization: DateRangeNormalization
+): DateRange {
+  if (normalization !== "half-open" || !range.to) return range;
+  return { ...range, to: subMilliseconds(range.to, 1) };
+}
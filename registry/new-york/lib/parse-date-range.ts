@@ -0,0 +1,369 @@
+import {
+  addDays,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  getWeek,
+  getWeekYear,
+  isAfter,
+  isValid,
+  parse,
+  set,
+  setWeek,
+  setWeekYear,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  sub,
+  subDays,
+  subMilliseconds,
+  subYears,
+} from "date-fns";
+import type { Locale } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+/**
+ * Options for parsing typed date ranges
+ */
+export interface ParseDateRangeOptions {
+  /** Reference date for relative phrases and dates without a year */
+  now?: Date;
+  /** First day of the week for "this week", "last week" and "W05 2024" */
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  /**
+   * date-fns locale for month names in typed dates, e.g. "3. März 2024".
+   * Relative phrases are always English.
+   */
+  locale?: Locale;
+  /**
+   * Whether "since March 3" leaves the end open, and "until March 3" or
+   * "before 2024" the start, instead of ending today
+   */
+  allowOpenEnded?: boolean;
+}
+
+type PeriodUnit = "day" | "week" | "month" | "quarter" | "year";
+
+// Two-digit years come first: "yyyy" would also accept "24" as year 24
+const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "M/d/yy",
+  "M/d/yyyy",
+  "LLL d, y",
+  "LLL d y",
+  "LLLL d, y",
+  "LLLL d y",
+  "d LLL y",
+  "d LLLL y",
+];
+
+const YEARLESS_DATE_FORMATS = ["LLL d", "LLLL d", "d LLL", "d LLLL", "M/d"];
+
+const TIME_FORMATS = ["HH:mm", "H:mm", "h:mm a", "h:mma", "h a", "ha"];
+
+const MONTH_FORMATS = ["LLLL y", "LLL y", "yyyy-MM"];
+
+// Candidate separators between the two ends of a range
+const SEPARATOR_PATTERN = /\s*(?:–|—|\.\.|\bto\b|\buntil\b|-)\s*/gi;
+
+/**
+ * Tries each format in turn and returns the first valid result
+ */
+const parseWithFormats = (
+  text: string,
+  formats: string[],
+  referenceDate: Date,
+  locale?: Locale
+): Date | undefined => {
+  for (const pattern of formats) {
+    const date = parse(text, pattern, referenceDate, { locale });
+    if (isValid(date)) return date;
+  }
+  return undefined;
+};
+
+/**
+ * Parses a time of day such as "14:00" or "2:30 pm" onto the given date
+ */
+const parseTime = (
+  text: string,
+  date: Date,
+  locale?: Locale
+): Date | undefined => {
+  const time = parseWithFormats(text, TIME_FORMATS, date, locale);
+  if (!time) return undefined;
+  return set(date, {
+    hours: time.getHours(),
+    minutes: time.getMinutes(),
+    seconds: 0,
+    milliseconds: 0,
+  });
+};
+
+/**
+ * Parses a calendar date, optionally followed by a time of day. Dates
+ * without a year that would fall after `now` resolve to the previous year.
+ */
+const parseDate = (
+  text: string,
+  now: Date,
+  locale?: Locale
+): { date: Date; hasTime: boolean } | undefined => {
+  const date = parseWithFormats(text, DATE_FORMATS, startOfDay(now), locale);
+  if (date) return { date, hasTime: false };
+
+  const yearless = parseWithFormats(
+    text,
+    YEARLESS_DATE_FORMATS,
+    startOfDay(now),
+    locale
+  );
+  if (yearless) {
+    return {
+      date: isAfter(yearless, now) ? subYears(yearless, 1) : yearless,
+      hasTime: false,
+    };
+  }
+
+  // Split a trailing time, e.g. "2024-03-03 14:00" or "Mar 3, 2024 2:30 pm"
+  const match = text.match(/^(.*\S)\s+(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)$/i);
+  if (match) {
+    const day = parseDate(match[1], now, locale);
+    const dateTime =
+      day && !day.hasTime && parseTime(match[2], day.date, locale);
+    if (dateTime) return { date: dateTime, hasTime: true };
+  }
+  return undefined;
+};
+
+const startOfPeriod = (
+  date: Date,
+  unit: PeriodUnit,
+  options: ParseDateRangeOptions
+): Date => {
+  switch (unit) {
+    case "day":
+      return startOfDay(date);
+    case "week":
+      return startOfWeek(date, options);
+    case "month":
+      return startOfMonth(date);
+    case "quarter":
+      return startOfQuarter(date);
+    case "year":
+      return startOfYear(date);
+  }
+};
+
+const endOfPeriod = (
+  date: Date,
+  unit: PeriodUnit,
+  options: ParseDateRangeOptions
+): Date => {
+  switch (unit) {
+    case "day":
+      return endOfDay(date);
+    case "week":
+      return endOfWeek(date, options);
+    case "month":
+      return endOfMonth(date);
+    case "quarter":
+      return endOfQuarter(date);
+    case "year":
+      return endOfYear(date);
+  }
+};
+
+/**
+ * Parses a single period: a day, a month, a quarter, a year or a relative
+ * phrase. Days with a time of day yield a zero-length range at that time.
+ */
+const parsePeriod = (
+  text: string,
+  now: Date,
+  options: ParseDateRangeOptions
+): DateRange | undefined => {
+  if (text === "today") {
+    return { from: startOfDay(now), to: endOfDay(now) };
+  }
+  if (text === "yesterday") {
+    const yesterday = subDays(now, 1);
+    return { from: startOfDay(yesterday), to: endOfDay(yesterday) };
+  }
+
+  // "last 2 weeks", "past 30 days": whole days ending today
+  const trailing = text.match(
+    /^(?:last|past|previous)\s+(\d+)\s+(day|week|month|quarter|year)s?$/
+  );
+  if (trailing) {
+    const amount = Number(trailing[1]);
+    const unit = trailing[2] as PeriodUnit;
+    if (amount < 1) return undefined;
+    const start =
+      unit === "quarter"
+        ? sub(now, { months: amount * 3 })
+        : sub(now, { [`${unit}s`]: amount });
+    return { from: startOfDay(addDays(start, 1)), to: endOfDay(now) };
+  }
+
+  // "this month", "last quarter": whole calendar periods
+  const calendarPeriod = text.match(
+    /^(this|last|previous)\s+(week|month|quarter|year)$/
+  );
+  if (calendarPeriod) {
+    const unit = calendarPeriod[2] as PeriodUnit;
+    const reference =
+      calendarPeriod[1] === "this"
+        ? now
+        : unit === "quarter"
+          ? sub(now, { months: 3 })
+          : sub(now, { [`${unit}s`]: 1 });
+    return {
+      from: startOfPeriod(reference, unit, options),
+      to: endOfPeriod(reference, unit, options),
+    };
+  }
+
+  // "since March 3": from that day through today, or open-ended
+  const since = text.match(/^(?:since|from)\s+(.+)$/);
+  if (since) {
+    const start = parsePeriod(since[1], now, options);
+    if (!start?.from) return undefined;
+    return {
+      from: start.from,
+      to: options.allowOpenEnded ? undefined : endOfDay(now),
+    };
+  }
+
+  // "until March 3", "before 2024": everything up to that period
+  const until = text.match(/^(until|through|before)\s+(.+)$/);
+  if (until && options.allowOpenEnded) {
+    const end = parsePeriod(until[2], now, options);
+    if (!end?.from || !end.to) return undefined;
+    return {
+      from: undefined,
+      to: until[1] === "before" ? subMilliseconds(end.from, 1) : end.to,
+    };
+  }
+
+  // "Q2 2024", "2024 Q2", "Q2"
+  const quarter = text.match(
+    /^(?:q([1-4])(?:\s+(\d{4}))?|(\d{4})\s+q([1-4]))$/
+  );
+  if (quarter) {
+    const quarterNumber = Number(quarter[1] ?? quarter[4]);
+    const year = Number(quarter[2] ?? quarter[3] ?? now.getFullYear());
+    const reference = set(now, {
+      year,
+      month: (quarterNumber - 1) * 3,
+      date: 1,
+    });
+    return { from: startOfQuarter(reference), to: endOfQuarter(reference) };
+  }
+
+  // "W05 2024", "2024-W05", "W05": weeks numbered like the calendar's rows
+  const week = text.match(
+    /^(?:w(\d{1,2})(?:\s+(\d{4}))?|(\d{4})[\s-]w(\d{1,2}))$/
+  );
+  if (week) {
+    const weekNumber = Number(week[1] ?? week[4]);
+    const year = Number(week[2] ?? week[3] ?? getWeekYear(now, options));
+    const reference = setWeek(
+      setWeekYear(now, year, options),
+      weekNumber,
+      options
+    );
+    // Rejects weeks the year does not have, such as "W53 2024"
+    if (getWeek(reference, options) !== weekNumber) return undefined;
+    return {
+      from: startOfWeek(reference, options),
+      to: endOfWeek(reference, options),
+    };
+  }
+
+  // "2024"
+  if (/^\d{4}$/.test(text)) {
+    const reference = set(now, { year: Number(text), month: 0, date: 1 });
+    return { from: startOfYear(reference), to: endOfYear(reference) };
+  }
+
+  const day = parseDate(text, now, options.locale);
+  if (day) {
+    return day.hasTime
+      ? { from: day.date, to: day.date }
+      : { from: startOfDay(day.date), to: endOfDay(day.date) };
+  }
+
+  // "March 2024"
+  const month = parseWithFormats(
+    text,
+    MONTH_FORMATS,
+    startOfDay(now),
+    options.locale
+  );
+  if (month) {
+    return { from: startOfMonth(month), to: endOfMonth(month) };
+  }
+
+  return undefined;
+};
+
+/**
+ * Parses a typed date range. Accepts strict ranges such as
+ * "2024-01-01 – 2024-01-31" or "01/01/24-01/31/24", single periods such as
+ * "Q2 2024", "W05 2024" or "March 2024", ranges of them such as
+ * "Q1 2024 – Q3 2024" or "W05–W09 2024", and phrases such as "last 2 weeks",
+ * "since March 3" or "yesterday". With `allowOpenEnded`, "since …" and
+ * "until …" yield ranges missing one end. Returns undefined when the text
+ * is not recognized or the range ends before it starts.
+ */
+export function parseDateRange(
+  input: string,
+  options: ParseDateRangeOptions = {}
+): DateRange | undefined {
+  const now = options.now ?? new Date();
+  const text = input.trim().replace(/\s+/g, " ").toLowerCase();
+  if (!text) return undefined;
+
+  const single = parsePeriod(text, now, options);
+  if (single) return single;
+
+  // "W05–W09 2024", "Q1 - Q3 2024": both ends take the trailing year
+  const sharedYear = text.match(
+    /^([wq]\d{1,2})\s*(?:–|—|-|\bto\b)\s*([wq]\d{1,2})\s+(\d{4})$/
+  );
+  if (sharedYear) {
+    const [, startText, endText, year] = sharedYear;
+    const start = parsePeriod(`${startText} ${year}`, now, options);
+    const end = parsePeriod(`${endText} ${year}`, now, options);
+    if (!start?.from || !end?.to || start.from > end.to) return undefined;
+    return { from: start.from, to: end.to };
+  }
+
+  // Try every separator position until both ends parse
+  for (const match of text.matchAll(SEPARATOR_PATTERN)) {
+    const left = text.slice(0, match.index).trim();
+    const right = text.slice((match.index ?? 0) + match[0].length).trim();
+    if (!left || !right) continue;
+
+    const start = parsePeriod(left, now, options);
+    if (!start?.from) continue;
+
+    // A bare time on the right ends the range on the start day
+    const end =
+      parsePeriod(right, now, options) ??
+      (start.from.getTime() === start.to?.getTime()
+        ? { to: parseTime(right, start.from, options.locale) }
+        : undefined);
+    if (!end?.to) continue;
+
+    if (start.from > end.to) return undefined;
+    return { from: start.from, to: end.to };
+  }
+
+  return undefined;
+}
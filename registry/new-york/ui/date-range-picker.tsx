@@ -1,24 +1,30 @@
 "use client";
 
 import * as React from "react";
-import {
-  format,
-  startOfDay,
-  endOfDay,
-  subDays,
-  startOfMonth,
-  endOfMonth,
-  subMonths,
-  isValid,
-} from "date-fns";
-import { CalendarIcon } from "lucide-react";
-import { DateRange } from "react-day-picker";
+import { format } from "date-fns";
+import type { Locale } from "date-fns";
+import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import type { DateRange } from "react-day-picker";
 
 import { cn } from "@/lib/utils";
+import {
+  DateRangePickerHandle,
+  DateRangePickerLabels,
+  DateRangePickerStatus,
+  DateRangeSummary,
+  DateRangeValue,
+  MINUTES_PER_DAY,
+  TimeFormat,
+  UseDateRangePickerOptions,
+  getRangeDays,
+  getTimeOfDay,
+  useDateRangePicker,
+} from "@/registry/new-york/hooks/use-date-range-picker";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
+  PopoverAnchor,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
@@ -31,489 +37,1258 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+// The picker's types and helpers live with the headless hook
+export {
+  addBusinessDays,
+  ClockProvider,
+  countBusinessDays,
+  defaultDateRangePickerLabels,
+  defaultPredefinedRanges,
+  formatInTimeZone,
+  formatInterval,
+  getBusinessDayPredefinedRanges,
+  getCalendarDateLib,
+  getFiscalPeriodRange,
+  getFiscalPredefinedRanges,
+  getFiscalQuarter,
+  getFiscalYear,
+  getHoliday,
+  getOpenEndedMode,
+  getPeriodRange,
+  getTimeZoneAbbreviation,
+  holidayCalendars,
+  isBusinessDay,
+  normalizeDateRange,
+  parseIcsHolidays,
+  parseInterval,
+  resolveComparisonRange,
+  resolveDateRangeValue,
+  snapDateRange,
+  toTimeZone,
+  useDateRangePicker,
+  useNow,
+} from "@/registry/new-york/hooks/use-date-range-picker";
+export type {
+  CalendarSystem,
+  ClockProviderProps,
+  ComparisonMode,
+  DateRangeChangeDetails,
+  DateRangeComparison,
+  DateRangeConstraints,
+  DateRangeFormatContext,
+  DateRangeGranularity,
+  DateRangeNormalization,
+  DateRangePickerLabels,
+  DateRangePickerStatus,
+  DateRangePickerHandle,
+  DateRangePeriod,
+  DateRangePeriodPage,
+  DateRangeSummary,
+  DateRangeValue,
+  FiscalCalendar,
+  FiscalPeriodUnit,
+  FiscalWeekPattern,
+  FormatIntervalOptions,
+  Holiday,
+  HolidayCalendar,
+  IntervalOptions,
+  NormalizeDateRangeOptions,
+  OpenEndedMode,
+  PredefinedRange,
+  TimeFormat,
+  UseDateRangePickerOptions,
+} from "@/registry/new-york/hooks/use-date-range-picker";
+
 /**
- * Predefined date range option
+ * State passed to `renderTrigger`
  */
-export interface PredefinedRange {
-  /** Display label for the range option */
+export interface DateRangeTriggerRenderProps {
+  /** Committed value */
+  value: DateRangeValue | undefined;
+  /** Committed value resolved to concrete dates */
+  range: DateRange | undefined;
+  /** Trigger text, from `formatValue` when given */
   label: string;
-  /** Date range value */
-  value: DateRange;
-  /** Optional description for accessibility */
-  description?: string;
+  /** Number of days the range spans, inclusive of both ends */
+  days: number;
+  /** Committed comparison range, when comparison is on */
+  compareRange: DateRange | undefined;
+  /** Whether the popover is open */
+  open: boolean;
+  /** Whether the picker is disabled */
+  disabled: boolean;
+  /** Whether a draft kept by `dismissBehavior="keep"` or still open is unapplied */
+  isDirty: boolean;
+}
+
+/**
+ * Draft state passed to `footer`
+ */
+export interface DateRangeFooterRenderProps {
+  /** Draft value, not applied yet */
+  draft: DateRangeValue | undefined;
+  /** Draft resolved to concrete dates */
+  draftRange: DateRange | undefined;
+  /**
+   * Day counts of the draft, or of the range a pick of the hovered day
+   * would make; undefined until both ends are known
+   */
+  summary: DateRangeSummary | undefined;
+  /** Where the user is in picking a range */
+  status: DateRangePickerStatus;
+  /** Whether the draft can be applied */
+  canApply: boolean;
 }
 
 /**
  * Props for the DateRangePicker component
  */
-export interface DateRangePickerProps {
-  /** Currently selected date range */
-  value?: DateRange;
-  /** Callback when date range changes */
-  onChange?: (range: DateRange | undefined) => void;
+export interface DateRangePickerProps extends UseDateRangePickerOptions {
   /** Additional CSS classes */
   className?: string;
-  /** Placeholder text when no range is selected */
-  placeholder?: string;
-  /** Custom predefined date ranges */
-  predefinedRanges?: PredefinedRange[];
   /** Whether to show predefined ranges section */
   showPredefinedRanges?: boolean;
   /** Whether to show calendar section */
   showCalendar?: boolean;
-  /** Whether the picker is disabled */
-  disabled?: boolean;
-  /** Whether to close popover when clearing selection */
-  closeOnClear?: boolean;
-  /** Whether to apply selection immediately when predefined range is selected */
-  applyOnPredefinedSelect?: boolean;
-  /** Whether to clear selection immediately when clear button is clicked */
-  clearOnSelect?: boolean;
-  /** Minimum selectable date */
-  minDate?: Date;
-  /** Maximum selectable date */
-  maxDate?: Date;
+  /**
+   * Whether the trigger accepts typed ranges such as "2024-01-01 – 2024-01-31"
+   * and phrases such as "last 2 weeks", "since March 3" or "Q2 2024"
+   */
+  editable?: boolean;
+  /** Whether to offer a comparison period toggle in the popover */
+  showComparison?: boolean;
   /** Number of months to display in calendar */
   numberOfMonths?: 1 | 2;
   /** Button width (CSS class or explicit width) */
   buttonWidth?: string;
+  /**
+   * Renders a custom trigger in place of the built-in one (including the
+   * editable input). The element receives the popover's ARIA attributes,
+   * ref and click handler, so it must forward them to a focusable element.
+   */
+  renderTrigger?: (props: DateRangeTriggerRenderProps) => React.ReactElement;
+  /**
+   * Renders custom content beside the footer's actions in place of the
+   * range summary, e.g. an estimated query cost for the draft
+   */
+  footer?: (props: DateRangeFooterRenderProps) => React.ReactNode;
+  /** Use the single child element as the trigger, like `renderTrigger` */
+  asChild?: boolean;
+  /** Custom trigger element when `asChild` is set */
+  children?: React.ReactElement;
+  /** Imperative handle with open, close, clear, focus and setRange */
+  ref?: React.Ref<DateRangePickerHandle>;
   /** Test ID for testing purposes */
   "data-testid"?: string;
 }
 
-/**
- * Default predefined date ranges
- */
-const defaultPredefinedRanges: PredefinedRange[] = [
-  {
-    label: "Today",
-    value: { from: startOfDay(new Date()), to: endOfDay(new Date()) },
-    description: "Select today's date",
-  },
-  {
-    label: "Yesterday",
-    value: {
-      from: startOfDay(subDays(new Date(), 1)),
-      to: endOfDay(subDays(new Date(), 1)),
-    },
-    description: "Select yesterday's date",
-  },
-  {
-    label: "Last 7 Days",
-    value: { from: subDays(new Date(), 6), to: new Date() },
-    description: "Select the last 7 days",
-  },
-  {
-    label: "Last 30 Days",
-    value: { from: subDays(new Date(), 29), to: new Date() },
-    description: "Select the last 30 days",
-  },
-  {
-    label: "This Month",
-    value: { from: startOfMonth(new Date()), to: endOfMonth(new Date()) },
-    description: "Select the current month",
-  },
-  {
-    label: "Last Month",
-    value: {
-      from: startOfMonth(subMonths(new Date(), 1)),
-      to: endOfMonth(subMonths(new Date(), 1)),
-    },
-    description: "Select the previous month",
-  },
-];
+// Reference times for the localized AM/PM names
+const AM_REFERENCE = new Date(2000, 0, 1, 0);
+const PM_REFERENCE = new Date(2000, 0, 1, 12);
 
-/**
- * Validates if a date range is complete and valid
- */
-const isValidDateRange = (range: DateRange | undefined): boolean => {
-  if (!range?.from || !range?.to) return false;
-  return isValid(range.from) && isValid(range.to) && range.from <= range.to;
-};
+interface TimeInputProps {
+  label: string;
+  labels: DateRangePickerLabels;
+  locale?: Locale;
+  dir: "ltr" | "rtl";
+  value: Date | undefined;
+  onChange: (minutesOfDay: number) => void;
+  timeFormat: TimeFormat;
+  minuteStep: number;
+  minMinutes: number;
+  maxMinutes: number;
+}
 
 /**
- * Compares two date ranges for equality
+ * Hour, minute and (for 12h clocks) period selects for one end of the range
  */
-const isRangeEqual = (
-  range1: DateRange | undefined,
-  range2: DateRange | undefined
-): boolean => {
-  if (!range1?.from || !range1?.to || !range2?.from || !range2?.to) {
-    return false;
+function TimeInput({
+  label,
+  labels,
+  locale,
+  dir,
+  value,
+  onChange,
+  timeFormat,
+  minuteStep,
+  minMinutes,
+  maxMinutes,
+}: TimeInputProps) {
+  const current = value ? getTimeOfDay(value) : undefined;
+  const hour = current === undefined ? undefined : Math.floor(current / 60);
+  const minute = current === undefined ? undefined : current % 60;
+  const isPm = hour !== undefined && hour >= 12;
+
+  const isAllowed = (from: number, to: number) =>
+    to >= minMinutes && from <= maxMinutes;
+
+  const commit = (nextHour: number, nextMinute: number) => {
+    onChange(
+      Math.min(maxMinutes, Math.max(minMinutes, nextHour * 60 + nextMinute))
+    );
+  };
+
+  const hourOptions = Array.from(
+    { length: timeFormat === "12h" ? 12 : 24 },
+    (_, index) => (timeFormat === "12h" && isPm ? index + 12 : index)
+  );
+
+  // Keep an off-step minute (e.g. from a preset) selectable
+  const minuteOptions = Array.from(
+    { length: Math.ceil(60 / minuteStep) },
+    (_, index) => index * minuteStep
+  );
+  if (minute !== undefined && !minuteOptions.includes(minute)) {
+    minuteOptions.push(minute);
+    minuteOptions.sort((a, b) => a - b);
   }
 
   return (
-    range1.from.toDateString() === range2.from.toDateString() &&
-    range1.to.toDateString() === range2.to.toDateString()
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <div
+        className="flex items-center gap-1"
+        role="group"
+        aria-label={labels.time(label)}
+      >
+        <Select
+          value={hour?.toString()}
+          onValueChange={(nextHour) => commit(Number(nextHour), minute ?? 0)}
+          disabled={!value}
+          dir={dir}
+        >
+          <SelectTrigger
+            size="sm"
+            className="w-16"
+            aria-label={labels.hour(label)}
+          >
+            <SelectValue placeholder="--" />
+          </SelectTrigger>
+          <SelectContent>
+            {hourOptions.map((option) => (
+              <SelectItem
+                key={option}
+                value={option.toString()}
+                disabled={!isAllowed(option * 60, option * 60 + 59)}
+              >
+                {timeFormat === "12h"
+                  ? option % 12 || 12
+                  : option.toString().padStart(2, "0")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span aria-hidden="true">:</span>
+        <Select
+          value={minute?.toString()}
+          onValueChange={(nextMinute) => commit(hour ?? 0, Number(nextMinute))}
+          disabled={!value}
+          dir={dir}
+        >
+          <SelectTrigger
+            size="sm"
+            className="w-16"
+            aria-label={labels.minute(label)}
+          >
+            <SelectValue placeholder="--" />
+          </SelectTrigger>
+          <SelectContent>
+            {minuteOptions.map((option) => {
+              const minutesOfDay = (hour ?? 0) * 60 + option;
+              return (
+                <SelectItem
+                  key={option}
+                  value={option.toString()}
+                  disabled={!isAllowed(minutesOfDay, minutesOfDay)}
+                >
+                  {option.toString().padStart(2, "0")}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+        {timeFormat === "12h" && (
+          <Select
+            value={hour === undefined ? undefined : isPm ? "pm" : "am"}
+            onValueChange={(period) =>
+              commit(
+                ((hour ?? 0) % 12) + (period === "pm" ? 12 : 0),
+                minute ?? 0
+              )
+            }
+            disabled={!value}
+            dir={dir}
+          >
+            <SelectTrigger
+              size="sm"
+              className="w-18"
+              aria-label={labels.period(label)}
+            >
+              <SelectValue placeholder="--" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="am" disabled={!isAllowed(0, 12 * 60 - 1)}>
+                {format(AM_REFERENCE, "a", { locale })}
+              </SelectItem>
+              <SelectItem
+                value="pm"
+                disabled={!isAllowed(12 * 60, MINUTES_PER_DAY - 1)}
+              >
+                {format(PM_REFERENCE, "a", { locale })}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
   );
-};
+}
 
-export function DateRangePicker({
-  value,
-  onChange,
-  className,
-  placeholder = "Select date range",
-  predefinedRanges = defaultPredefinedRanges,
+/**
+ * Props for DateRangePicker.Root: the picker configuration plus the parts
+ */
+export interface DateRangePickerRootProps extends Omit<
+  DateRangePickerProps,
+  "asChild" | "children"
+> {
+  /** Trigger, Content and any other elements */
+  children?: React.ReactNode;
+}
+
+/**
+ * The headless picker plus the layout options shared by the compound parts
+ */
+function useDateRangePickerState({
   showPredefinedRanges = true,
   showCalendar = true,
-  disabled = false,
-  closeOnClear = true,
-  applyOnPredefinedSelect = true,
-  clearOnSelect = true,
-  minDate,
-  maxDate = new Date(),
+  editable = false,
+  showComparison = false,
   numberOfMonths = 2,
   buttonWidth = "min-w-[200px] max-w-[400px] w-auto",
+  renderTrigger,
+  footer,
   "data-testid": testId,
-}: DateRangePickerProps) {
-  const [open, setOpen] = React.useState(false);
-  const [tempRange, setTempRange] = React.useState<DateRange | undefined>(
-    value
+  ...options
+}: Omit<DateRangePickerRootProps, "className" | "children" | "ref">) {
+  const picker = useDateRangePicker(options);
+  return {
+    ...picker,
+    showPredefinedRanges,
+    showCalendar,
+    editable,
+    showComparison,
+    numberOfMonths,
+    buttonWidth,
+    renderTrigger,
+    footer,
+    testId,
+  };
+}
+
+type DateRangePickerContextValue = ReturnType<typeof useDateRangePickerState>;
+
+const DateRangePickerContext =
+  React.createContext<DateRangePickerContextValue | null>(null);
+
+/**
+ * Reads the state of the surrounding DateRangePicker.Root, e.g. to build a
+ * custom footer from `handleApply`, `handleClear` and `canApply`
+ */
+export function useDateRangePickerContext(): DateRangePickerContextValue {
+  const context = React.useContext(DateRangePickerContext);
+  if (!context) {
+    throw new Error(
+      "DateRangePicker parts must be rendered inside DateRangePicker.Root"
+    );
+  }
+  return context;
+}
+
+/**
+ * Holds the picker state and the popover; render the other parts inside it
+ */
+function DateRangePickerRoot({
+  className,
+  children,
+  ref,
+  ...props
+}: DateRangePickerRootProps) {
+  const state = useDateRangePickerState(props);
+  const {
+    dir,
+    testId,
+    open,
+    handleOpenChange,
+    handle,
+    formInputs,
+    parsedInput,
+    previewId,
+  } = state;
+
+  React.useImperativeHandle(ref, () => handle, [handle]);
+
+  return (
+    <DateRangePickerContext.Provider value={state}>
+      <div
+        className={cn("relative grid gap-2", className)}
+        dir={dir}
+        data-testid={testId}
+      >
+        <Popover open={open} onOpenChange={handleOpenChange}>
+          {children}
+        </Popover>
+        {formInputs.map((input) => (
+          // The `required` control sits over the trigger for the browser's message
+          <input
+            key={input.name ?? "required"}
+            className="pointer-events-none absolute inset-x-0 top-0 h-9 opacity-0"
+            {...input}
+          />
+        ))}
+        {parsedInput && (
+          <p
+            id={previewId}
+            className={cn(
+              "text-xs",
+              "error" in parsedInput
+                ? "text-destructive"
+                : "text-muted-foreground"
+            )}
+            aria-live="polite"
+          >
+            {"error" in parsedInput
+              ? parsedInput.error
+              : state.formatDateRange(parsedInput.range)}
+          </p>
+        )}
+      </div>
+    </DateRangePickerContext.Provider>
   );
+}
 
-  // Sync temporary range with external value changes
-  React.useEffect(() => {
-    setTempRange(value);
-  }, [value]);
-
-  // Validation for date constraints
-  const isDateDisabled = React.useMemo(() => {
-    return (date: Date) => {
-      if (minDate && date < minDate) return true;
-      if (maxDate && date > maxDate) return true;
-      return false;
-    };
-  }, [minDate, maxDate]);
-
-  // Calendar default month calculation
-  const defaultMonth = React.useMemo(() => {
-    if (tempRange?.from) return tempRange.from;
-    if (value?.from) return value.from;
-    return subMonths(new Date(), 1);
-  }, [tempRange?.from, value?.from]);
-
-  // Event handlers with useCallback for performance
-  const handleRangeSelect = React.useCallback(
-    (range: DateRange | undefined) => {
-      setTempRange(range);
-    },
-    []
+/**
+ * Dot marking a draft that is not applied yet
+ */
+function DirtyIndicator({ className }: { className?: string }) {
+  return (
+    <span
+      className={cn(
+        "ms-auto size-2 shrink-0 rounded-full bg-primary",
+        className
+      )}
+      aria-hidden="true"
+    />
   );
+}
 
-  const handlePredefinedRangeSelect = React.useCallback(
-    (range: DateRange) => {
-      setTempRange(range);
-      if (applyOnPredefinedSelect) {
-        onChange?.(range);
-        setOpen(false);
-      }
-    },
-    [applyOnPredefinedSelect, onChange]
+/**
+ * Editable trigger: a text input next to a calendar button
+ */
+function EditableTrigger() {
+  const {
+    value,
+    disabled,
+    labels,
+    open,
+    testId,
+    buttonWidth,
+    inputText,
+    setInputText,
+    triggerLabel,
+    placeholder,
+    formatValue,
+    handleInputCommit,
+    parsedInput,
+    previewId,
+    isDirty,
+    setTriggerElement,
+  } = useDateRangePickerContext();
+
+  return (
+    <PopoverAnchor asChild>
+      <div
+        className={cn(
+          buttonWidth,
+          "flex h-9 items-center gap-1 rounded-md border bg-background ps-1 pe-3 shadow-xs transition-[color,box-shadow] focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50 dark:border-input dark:bg-input/30",
+          disabled && "cursor-not-allowed opacity-50"
+        )}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative size-7"
+            disabled={disabled}
+            aria-label={
+              isDirty
+                ? `${labels.openCalendar}, ${labels.unappliedChanges}`
+                : labels.openCalendar
+            }
+            aria-expanded={open}
+            aria-haspopup="dialog"
+            data-dirty={isDirty || undefined}
+            data-testid={testId ? `${testId}-trigger` : undefined}
+          >
+            <CalendarIcon className="h-4 w-4" aria-hidden="true" />
+            {isDirty && <DirtyIndicator className="absolute top-1 end-1" />}
+          </Button>
+        </PopoverTrigger>
+        <input
+          ref={setTriggerElement}
+          id="date-range-picker"
+          type="text"
+          className="min-w-0 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground disabled:cursor-not-allowed"
+          value={inputText ?? (value ? triggerLabel : "")}
+          placeholder={placeholder}
+          disabled={disabled}
+          onFocus={() => setInputText(value ? formatValue(value) : "")}
+          onChange={(event) => setInputText(event.target.value)}
+          onBlur={() => handleInputCommit(false)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleInputCommit(true);
+            } else if (event.key === "Escape") {
+              setInputText(null);
+            }
+          }}
+          aria-label={labels.typedInput}
+          aria-invalid={!!parsedInput && "error" in parsedInput}
+          aria-describedby={parsedInput ? previewId : undefined}
+          data-testid={testId ? `${testId}-input` : undefined}
+        />
+      </div>
+    </PopoverAnchor>
   );
+}
+
+/**
+ * Props for DateRangePicker.Trigger
+ */
+export interface DateRangePickerTriggerProps {
+  /** Use the single child element as the trigger */
+  asChild?: boolean;
+  /** Custom trigger element when `asChild` is set */
+  children?: React.ReactElement;
+  /** Additional CSS classes for the built-in button */
+  className?: string;
+}
+
+/**
+ * Opens the popover: a custom element (`asChild` or the root's
+ * `renderTrigger`), the editable input, or the built-in button
+ */
+function DateRangePickerTrigger({
+  asChild = false,
+  children,
+  className,
+}: DateRangePickerTriggerProps) {
+  const {
+    value,
+    selectedRange,
+    selectedCompareRange,
+    triggerLabel,
+    triggerAriaLabel,
+    compareLabel,
+    open,
+    disabled,
+    isDirty,
+    editable,
+    labels,
+    buttonWidth,
+    renderTrigger,
+    testId,
+    setTriggerElement,
+  } = useDateRangePickerContext();
+
+  // PopoverTrigger merges the ARIA wiring, ref and toggle into the element
+  const customTrigger = asChild
+    ? children
+    : renderTrigger?.({
+        value,
+        range: selectedRange,
+        label: triggerLabel,
+        days: selectedRange ? getRangeDays(selectedRange) : 0,
+        compareRange: selectedCompareRange,
+        open,
+        disabled,
+        isDirty,
+      });
+
+  if (customTrigger) {
+    return (
+      <PopoverTrigger
+        ref={setTriggerElement}
+        asChild
+        disabled={disabled}
+        data-testid={testId ? `${testId}-trigger` : undefined}
+      >
+        {customTrigger}
+      </PopoverTrigger>
+    );
+  }
 
-  const handleApply = React.useCallback(() => {
-    // Only apply if range is valid or undefined
-    if (!tempRange || isValidDateRange(tempRange)) {
-      onChange?.(tempRange);
-      setOpen(false);
-    }
-  }, [tempRange, onChange]);
-
-  const handleClear = React.useCallback(() => {
-    setTempRange(undefined);
-    if (clearOnSelect) {
-      onChange?.(undefined);
-      if (closeOnClear) setOpen(false);
-    }
-  }, [clearOnSelect, onChange, closeOnClear]);
-
-  const handleOpenChange = React.useCallback(
-    (newOpen: boolean) => {
-      setOpen(newOpen);
-      // Reset temp range when closing without applying
-      if (!newOpen && !applyOnPredefinedSelect) {
-        setTempRange(value);
-      }
-    },
-    [value, applyOnPredefinedSelect]
+  if (editable) return <EditableTrigger />;
+
+  return (
+    <PopoverTrigger ref={setTriggerElement} asChild>
+      <Button
+        id="date-range-picker"
+        variant="outline"
+        className={cn(
+          buttonWidth,
+          "justify-start text-start font-normal",
+          !value && "text-muted-foreground",
+          disabled && "cursor-not-allowed opacity-50",
+          className
+        )}
+        disabled={disabled}
+        aria-label={triggerAriaLabel}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+        data-dirty={isDirty || undefined}
+        data-testid={testId ? `${testId}-trigger` : undefined}
+      >
+        <CalendarIcon
+          className="me-2 h-4 w-4 flex-shrink-0"
+          aria-hidden="true"
+        />
+        <span className="truncate">{triggerLabel}</span>
+        {compareLabel && (
+          <span className="truncate text-muted-foreground">
+            {labels.versus(compareLabel)}
+          </span>
+        )}
+        {isDirty && <DirtyIndicator />}
+      </Button>
+    </PopoverTrigger>
   );
+}
 
-  // Format date range for display
-  const formatDateRange = React.useCallback(
-    (range: DateRange | undefined): string => {
-      if (!range?.from) {
-        return placeholder;
-      }
-      if (!range.to) {
-        return format(range.from, "LLL dd, y");
-      }
-      if (range.from.getTime() === range.to.getTime()) {
-        return format(range.from, "LLL dd, y");
-      }
-      return `${format(range.from, "LLL dd, y")} - ${format(
-        range.to,
-        "LLL dd, y"
-      )}`;
-    },
-    [placeholder]
+/**
+ * Props for DateRangePicker.Content
+ */
+export interface DateRangePickerContentProps {
+  /** Custom layout; defaults to presets beside the calendar */
+  children?: React.ReactNode;
+  /** Additional CSS classes */
+  className?: string;
+  /** Alignment against the trigger */
+  align?: "start" | "center" | "end";
+}
+
+/**
+ * The popover panel. Without children it renders the default layout.
+ */
+function DateRangePickerContent({
+  children,
+  className,
+  align = "end",
+}: DateRangePickerContentProps) {
+  const { labels, dir, showPredefinedRanges, showCalendar } =
+    useDateRangePickerContext();
+
+  return (
+    <PopoverContent
+      className={cn(
+        "p-0",
+        // For mobile quick select only, use constrained width
+        !children && showPredefinedRanges && !showCalendar
+          ? "w-48 md:w-auto"
+          : "w-auto",
+        className
+      )}
+      align={align}
+      sideOffset={4}
+      role="dialog"
+      aria-label={labels.dialog}
+      dir={dir}
+    >
+      {children ?? (
+        <>
+          <div className="hidden md:block">
+            <DesktopLayout />
+          </div>
+          <div className="md:hidden">
+            <MobileLayout />
+          </div>
+        </>
+      )}
+    </PopoverContent>
   );
+}
+
+/**
+ * Props for DateRangePicker.Presets
+ */
+export interface DateRangePickerPresetsProps {
+  /** A list of buttons, or a compact select for narrow layouts */
+  variant?: "list" | "select";
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * The predefined ranges
+ */
+function DateRangePickerPresets({
+  variant = "list",
+  className,
+}: DateRangePickerPresetsProps) {
+  const {
+    predefinedRanges,
+    unavailablePresetIds,
+    isRangeSelected,
+    handlePredefinedRangeSelect,
+    getPresetProps,
+    labels,
+    dir,
+  } = useDateRangePickerContext();
 
-  // Check if a predefined range is currently selected
-  const isRangeSelected = React.useCallback(
-    (predefinedRange: DateRange) => {
-      return isRangeEqual(predefinedRange, tempRange);
-    },
-    [tempRange]
+  if (variant === "select") {
+    return (
+      <Select
+        onValueChange={(presetId) => {
+          const selectedPreset = predefinedRanges.find(
+            (range) => range.id === presetId
+          );
+          if (selectedPreset) {
+            handlePredefinedRangeSelect(selectedPreset);
+          }
+        }}
+        dir={dir}
+      >
+        <SelectTrigger
+          className={cn("w-full", className)}
+          aria-label={labels.quickSelectAria}
+        >
+          <SelectValue placeholder={labels.quickSelectPlaceholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {predefinedRanges.map((range) => (
+            <SelectItem
+              key={range.id}
+              value={range.id}
+              disabled={unavailablePresetIds.has(range.id)}
+              aria-label={range.description}
+            >
+              {range.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <div
+      className={cn("space-y-1 max-h-full overflow-scroll", className)}
+      role="list"
+    >
+      {predefinedRanges.map((range) => {
+        const isSelected = isRangeSelected(range);
+        return (
+          <Button
+            key={range.id}
+            variant={isSelected ? "secondary" : "ghost"}
+            size="sm"
+            className="w-full justify-start"
+            {...getPresetProps(range)}
+            role="listitem"
+          >
+            {range.label}
+          </Button>
+        );
+      })}
+    </div>
   );
+}
 
-  // Calendar component for desktop
-  const CalendarContent = React.memo(() => (
-    <div className="flex flex-col gap-4">
-      <div className="flex-1">
-        <Calendar
-          autoFocus
-          mode="range"
-          defaultMonth={defaultMonth}
-          selected={tempRange}
-          onSelect={handleRangeSelect}
-          numberOfMonths={numberOfMonths}
-          className="rounded-md border"
-          disabled={isDateDisabled}
-          showOutsideDays={false}
-          endMonth={maxDate}
-          startMonth={minDate || subMonths(new Date(), 12)}
+/**
+ * Start and end time inputs shown under the calendar
+ */
+function TimeInputs() {
+  const {
+    draftRange,
+    labels,
+    calendarLocale,
+    dir,
+    timeFormat,
+    minuteStep,
+    minMinutes,
+    maxMinutes,
+    openEnd,
+    handleTimeChange,
+  } = useDateRangePickerContext();
+
+  return (
+    <div className="flex flex-col gap-2">
+      {openEnd !== "until" && (
+        <TimeInput
+          label={labels.start}
+          labels={labels}
+          locale={calendarLocale}
+          dir={dir}
+          value={draftRange?.from}
+          onChange={(minutesOfDay) => handleTimeChange("from", minutesOfDay)}
+          timeFormat={timeFormat}
+          minuteStep={minuteStep}
+          minMinutes={minMinutes}
+          maxMinutes={maxMinutes}
         />
-      </div>
-      <div className="flex justify-end gap-2 px-4">
+      )}
+      {openEnd !== "since" && (
+        <TimeInput
+          label={labels.end}
+          labels={labels}
+          locale={calendarLocale}
+          dir={dir}
+          value={draftRange?.to}
+          onChange={(minutesOfDay) => handleTimeChange("to", minutesOfDay)}
+          timeFormat={timeFormat}
+          minuteStep={minuteStep}
+          minMinutes={minMinutes}
+          maxMinutes={maxMinutes}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Month, quarter or year grid for the coarser granularities
+ */
+function PeriodGrid() {
+  const { granularity, defaultMonth, labels, getPeriodPage, getPeriodProps } =
+    useDateRangePickerContext();
+  // Like the calendar's month, the page is kept only while the popover is open
+  const [pageDate, setPageDate] = React.useState(defaultMonth);
+  const page = getPeriodPage(pageDate);
+
+  return (
+    <div className="flex w-64 flex-col gap-3 rounded-md border p-3">
+      <div className="flex items-center justify-between">
         <Button
-          variant="outline"
-          size="sm"
-          onClick={handleClear}
-          disabled={!tempRange}
-          aria-label="Clear date range selection"
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          aria-label={labels.previousPeriods}
+          disabled={!page.previous}
+          onClick={() => page.previous && setPageDate(page.previous)}
         >
-          Clear
+          <ChevronLeftIcon className="rtl:rotate-180" />
         </Button>
+        <span className="text-sm font-medium" aria-live="polite">
+          {page.label}
+        </span>
         <Button
-          size="sm"
-          onClick={handleApply}
-          disabled={tempRange !== undefined && !isValidDateRange(tempRange)}
-          aria-label="Apply date range selection"
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          aria-label={labels.nextPeriods}
+          disabled={!page.next}
+          onClick={() => page.next && setPageDate(page.next)}
         >
-          Apply
+          <ChevronRightIcon className="rtl:rotate-180" />
         </Button>
       </div>
+      <div
+        className={cn(
+          "grid gap-1",
+          granularity === "quarter" ? "grid-cols-2" : "grid-cols-3"
+        )}
+      >
+        {page.periods.map((period) => (
+          <Button
+            key={period.from.getTime()}
+            variant="ghost"
+            size="sm"
+            className="aria-pressed:bg-primary aria-pressed:text-primary-foreground"
+            {...getPeriodProps(period)}
+          >
+            {period.label}
+          </Button>
+        ))}
+      </div>
     </div>
-  ));
-
-  // Calendar component for mobile
-  const MobileCalendarContent = React.memo(() => (
-    <div className="flex flex-col">
-      <div className="flex-1">
-        <Calendar
-          autoFocus
-          mode="range"
-          defaultMonth={defaultMonth}
-          selected={tempRange}
-          onSelect={handleRangeSelect}
-          numberOfMonths={1}
-          className="rounded-md border"
-          disabled={isDateDisabled}
-          showOutsideDays={false}
-          endMonth={maxDate}
-          startMonth={minDate || subMonths(new Date(), 12)}
-        />
+  );
+}
+
+/**
+ * Props for DateRangePicker.Calendar
+ */
+export interface DateRangePickerCalendarProps {
+  /** Number of months to display; defaults to the root's `numberOfMonths` */
+  numberOfMonths?: 1 | 2;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * The range calendar, with the time inputs when `withTime` is set, or the
+ * period grid for month, quarter and year granularity
+ */
+function DateRangePickerCalendar({
+  numberOfMonths,
+  className,
+}: DateRangePickerCalendarProps) {
+  const state = useDateRangePickerContext();
+
+  if (state.granularity !== "day" && state.granularity !== "week") {
+    return (
+      <div className={cn("flex flex-col gap-4", className)}>
+        <PeriodGrid />
       </div>
-      <div className="flex justify-end gap-2 pt-4">
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-4", className)}>
+      <Calendar
+        autoFocus
+        {...state.getCalendarProps()}
+        modifiersClassNames={{
+          comparison:
+            "bg-chart-2/20 text-foreground first:rounded-s-md last:rounded-e-md",
+          holiday: "text-muted-foreground",
+        }}
+        numberOfMonths={numberOfMonths ?? state.numberOfMonths}
+        className="rounded-md border"
+        showOutsideDays={false}
+      />
+      {state.withTime && <TimeInputs />}
+    </div>
+  );
+}
+
+/**
+ * Comparison toggle, mode choice and custom range editing target
+ */
+function ComparisonControls() {
+  const {
+    draftComparison,
+    draftCompareRange,
+    editingTarget,
+    setEditingTarget,
+    labels,
+    dir,
+    formatDateRange,
+    handleComparisonToggle,
+    handleComparisonModeChange,
+  } = useDateRangePickerContext();
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
         <Button
-          variant="outline"
+          variant={draftComparison ? "secondary" : "outline"}
           size="sm"
-          onClick={handleClear}
-          disabled={!tempRange}
-          aria-label="Clear date range selection"
+          onClick={handleComparisonToggle}
+          aria-pressed={!!draftComparison}
         >
-          Clear
+          {labels.compare}
         </Button>
-        <Button
-          size="sm"
-          onClick={handleApply}
-          disabled={tempRange !== undefined && !isValidDateRange(tempRange)}
-          aria-label="Apply date range selection"
+        <Select
+          value={draftComparison?.mode ?? "previous-period"}
+          onValueChange={handleComparisonModeChange}
+          disabled={!draftComparison}
+          dir={dir}
         >
-          Apply
-        </Button>
+          <SelectTrigger
+            size="sm"
+            className="flex-1"
+            aria-label={labels.comparisonMode}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="previous-period">
+              {labels.previousPeriod}
+            </SelectItem>
+            <SelectItem value="previous-year">{labels.previousYear}</SelectItem>
+            <SelectItem value="custom">{labels.customComparison}</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
-    </div>
-  ));
-
-  // Predefined ranges list
-  const PredefinedRangesContent = React.memo(() => (
-    <div className="space-y-1 max-h-full overflow-scroll" role="list">
-      {predefinedRanges.map((range) => {
-        const isSelected = isRangeSelected(range.value);
-        return (
+      {draftComparison?.mode === "custom" && (
+        <div
+          className="flex gap-1"
+          role="group"
+          aria-label={labels.editingTarget}
+        >
           <Button
-            key={range.label}
-            variant={isSelected ? "secondary" : "ghost"}
+            variant={editingTarget === "range" ? "secondary" : "ghost"}
             size="sm"
-            className="w-full justify-start"
-            onClick={() => handlePredefinedRangeSelect(range.value)}
-            aria-label={range.description || `Select ${range.label}`}
-            aria-pressed={isSelected}
-            role="listitem"
+            onClick={() => setEditingTarget("range")}
+            aria-pressed={editingTarget === "range"}
           >
-            {range.label}
+            {labels.editRange}
           </Button>
-        );
-      })}
+          <Button
+            variant={editingTarget === "comparison" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setEditingTarget("comparison")}
+            aria-pressed={editingTarget === "comparison"}
+          >
+            {labels.editComparison}
+          </Button>
+        </div>
+      )}
+      {draftComparison && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span
+            className="size-2 shrink-0 rounded-full bg-chart-2"
+            aria-hidden="true"
+          />
+          {labels.versus(formatDateRange(draftCompareRange))}
+        </p>
+      )}
     </div>
-  ));
+  );
+}
 
-  // Desktop layout
-  const DesktopContent = React.memo(() => {
-    if (!showPredefinedRanges && !showCalendar) {
-      return (
-        <div className="p-4 text-center text-muted-foreground">
-          No content to display
-        </div>
-      );
-    }
-    if (!showPredefinedRanges) {
-      return (
-        <div className="p-4">
-          <CalendarContent />
-        </div>
-      );
-    }
-    if (!showCalendar) {
-      return (
-        <div className="p-4 w-48">
-          <PredefinedRangesContent />
-        </div>
-      );
-    }
-    // Both shown
-    return (
-      <div className="relative">
-        <div className="absolute inset-y-0 left-0 w-48 border-r p-4 flex flex-col overflow-auto">
-          <h4 className="mb-4 text-sm font-semibold">Quick Select</h4>
-          <ScrollArea className="flex-1 pr-3">
-            <PredefinedRangesContent />
-          </ScrollArea>
-        </div>
-        <div className="ml-48 p-4">
-          <CalendarContent />
-        </div>
-      </div>
-    );
-  });
+/**
+ * Since/Until toggles: while one is pressed, calendar clicks set that end
+ * and the other stays open
+ */
+function OpenEndedControls() {
+  const { openEnd, labels, getOpenEndToggleProps } =
+    useDateRangePickerContext();
 
-  // Mobile layout
-  const MobileContent = React.memo(() => {
-    const isQuickSelectOnly = showPredefinedRanges && !showCalendar;
+  return (
+    <div className="flex gap-1" role="group" aria-label={labels.openEnded}>
+      <Button
+        variant={openEnd === "since" ? "secondary" : "ghost"}
+        size="sm"
+        {...getOpenEndToggleProps("since")}
+      >
+        {labels.since}
+      </Button>
+      <Button
+        variant={openEnd === "until" ? "secondary" : "ghost"}
+        size="sm"
+        {...getOpenEndToggleProps("until")}
+      >
+        {labels.until}
+      </Button>
+    </div>
+  );
+}
 
-    return (
-      <div className="w-full">
-        {showPredefinedRanges && showCalendar && (
-          <div className="px-4 pt-4">
-            <Select
-              onValueChange={(value) => {
-                const selectedRange = predefinedRanges.find(
-                  (range) => range.label === value
-                );
-                if (selectedRange) {
-                  handlePredefinedRangeSelect(selectedRange.value);
-                }
-              }}
-              aria-label="Quick select date range"
-            >
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Quick select range" />
-              </SelectTrigger>
-              <SelectContent>
-                {predefinedRanges.map((range) => (
-                  <SelectItem
-                    key={range.label}
-                    value={range.label}
-                    aria-label={range.description}
-                  >
-                    {range.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        )}
-        {isQuickSelectOnly && (
-          <div className="p-4">
-            <PredefinedRangesContent />
-          </div>
-        )}
-        {showCalendar && (
-          <div className="p-4">
-            <MobileCalendarContent />
-          </div>
-        )}
-        {!showCalendar && !showPredefinedRanges && (
-          <div className="p-4 text-center text-muted-foreground">
-            No content to display
+/**
+ * Props for DateRangePicker.Footer
+ */
+export interface DateRangePickerFooterProps {
+  /** Extra content shown above the actions */
+  children?: React.ReactNode;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * The draft's span and day counts, e.g. "Mar 3 → Apr 2 · 31 days · 22
+ * business days"
+ */
+function RangeSummary() {
+  const { draftSummary, labels } = useDateRangePickerContext();
+  if (!draftSummary) return null;
+
+  return (
+    <p
+      className="text-xs text-muted-foreground"
+      data-preview={draftSummary.isPreview || undefined}
+    >
+      {[
+        draftSummary.label,
+        labels.dayCount(draftSummary.days),
+        labels.businessDayCount(draftSummary.businessDays),
+      ].join(" · ")}
+    </p>
+  );
+}
+
+/**
+ * Open-ended and comparison controls, the validation message or range
+ * summary, and the Clear/Apply actions
+ */
+function DateRangePickerFooter({
+  children,
+  className,
+}: DateRangePickerFooterProps) {
+  const {
+    showComparison,
+    allowOpenEnded,
+    rangeError,
+    labels,
+    footer,
+    draft,
+    draftRange,
+    draftSummary,
+    status,
+    canApply,
+    getClearButtonProps,
+    getCancelButtonProps,
+    getApplyButtonProps,
+  } = useDateRangePickerContext();
+
+  return (
+    <div className={cn("flex flex-col gap-4", className)}>
+      {allowOpenEnded && <OpenEndedControls />}
+      {showComparison && <ComparisonControls />}
+      {children}
+      <div className="flex items-center justify-end gap-2">
+        {rangeError ? (
+          <p className="me-auto text-xs text-destructive" role="status">
+            {rangeError}
+          </p>
+        ) : (
+          <div className="me-auto">
+            {footer ? (
+              footer({
+                draft,
+                draftRange,
+                summary: draftSummary,
+                status,
+                canApply,
+              })
+            ) : (
+              <RangeSummary />
+            )}
           </div>
         )}
+        <Button variant="outline" size="sm" {...getClearButtonProps()}>
+          {labels.clear}
+        </Button>
+        <Button variant="ghost" size="sm" {...getCancelButtonProps()}>
+          {labels.cancel}
+        </Button>
+        <Button size="sm" {...getApplyButtonProps()}>
+          {labels.apply}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Default desktop layout: presets in a column beside the calendar
+ */
+function DesktopLayout() {
+  const { labels, dir, showPredefinedRanges, showCalendar } =
+    useDateRangePickerContext();
+
+  if (!showPredefinedRanges && !showCalendar) {
+    return (
+      <div className="p-4 text-center text-muted-foreground">
+        {labels.noContent}
+      </div>
+    );
+  }
+  if (!showPredefinedRanges) {
+    return (
+      <div className="flex flex-col gap-4 p-4">
+        <DateRangePickerCalendar />
+        <DateRangePickerFooter className="px-4" />
       </div>
     );
-  });
+  }
+  if (!showCalendar) {
+    return (
+      <div className="p-4 w-48">
+        <DateRangePickerPresets />
+      </div>
+    );
+  }
+  // Both shown
+  return (
+    <div className="relative">
+      <div className="absolute inset-y-0 start-0 w-48 border-e p-4 flex flex-col overflow-auto">
+        <h4 className="mb-4 text-sm font-semibold">{labels.quickSelect}</h4>
+        <ScrollArea className="flex-1 pe-3" dir={dir}>
+          <DateRangePickerPresets />
+        </ScrollArea>
+      </div>
+      <div className="ms-48 flex flex-col gap-4 p-4">
+        <DateRangePickerCalendar />
+        <DateRangePickerFooter className="px-4" />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Default mobile layout: a preset select above a single-month calendar
+ */
+function MobileLayout() {
+  const { labels, showPredefinedRanges, showCalendar } =
+    useDateRangePickerContext();
+  const isQuickSelectOnly = showPredefinedRanges && !showCalendar;
 
   return (
-    <div className={cn("grid gap-2", className)} data-testid={testId}>
-      <Popover open={open} onOpenChange={handleOpenChange}>
-        <PopoverTrigger asChild>
-          <Button
-            id="date-range-picker"
-            variant="outline"
-            className={cn(
-              buttonWidth,
-              "justify-start text-left font-normal",
-              !value && "text-muted-foreground",
-              disabled && "cursor-not-allowed opacity-50"
-            )}
-            disabled={disabled}
-            aria-label={`Date range picker: ${formatDateRange(value)}`}
-            aria-expanded={open}
-            aria-haspopup="dialog"
-            data-testid={testId ? `${testId}-trigger` : undefined}
-          >
-            <CalendarIcon
-              className="mr-2 h-4 w-4 flex-shrink-0"
-              aria-hidden="true"
-            />
-            <span className="truncate">{formatDateRange(value)}</span>
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent
-          className={cn(
-            "p-0",
-            // For mobile quick select only, use constrained width
-            showPredefinedRanges && !showCalendar ? "w-48 md:w-auto" : "w-auto"
-          )}
-          align="end"
-          sideOffset={4}
-          role="dialog"
-          aria-label="Date range picker"
-        >
-          <div className="hidden md:block">
-            <DesktopContent />
-          </div>
-          <div className="md:hidden">
-            <MobileContent />
-          </div>
-        </PopoverContent>
-      </Popover>
+    <div className="w-full">
+      {showPredefinedRanges && showCalendar && (
+        <div className="px-4 pt-4">
+          <DateRangePickerPresets variant="select" />
+        </div>
+      )}
+      {isQuickSelectOnly && (
+        <div className="p-4">
+          <DateRangePickerPresets />
+        </div>
+      )}
+      {showCalendar && (
+        <div className="flex flex-col gap-4 p-4">
+          <DateRangePickerCalendar numberOfMonths={1} />
+          <DateRangePickerFooter />
+        </div>
+      )}
+      {!showCalendar && !showPredefinedRanges && (
+        <div className="p-4 text-center text-muted-foreground">
+          {labels.noContent}
+        </div>
+      )}
     </div>
   );
 }
 
+/**
+ * Date range picker with presets, a calendar and a footer. For custom
+ * layouts compose DateRangePicker.Root, .Trigger, .Content, .Presets,
+ * .Calendar and .Footer instead.
+ */
+export function DateRangePicker({
+  asChild,
+  children,
+  ...props
+}: DateRangePickerProps) {
+  return (
+    <DateRangePickerRoot {...props}>
+      <DateRangePickerTrigger asChild={asChild}>
+        {children}
+      </DateRangePickerTrigger>
+      <DateRangePickerContent />
+    </DateRangePickerRoot>
+  );
+}
+
+DateRangePicker.Root = DateRangePickerRoot;
+DateRangePicker.Trigger = DateRangePickerTrigger;
+DateRangePicker.Content = DateRangePickerContent;
+DateRangePicker.Presets = DateRangePickerPresets;
+DateRangePicker.Calendar = DateRangePickerCalendar;
+DateRangePicker.Footer = DateRangePickerFooter;
+
 // Add display name for easier debugging
 DateRangePicker.displayName = "DateRangePicker";
 
+export {
+  DateRangePickerRoot,
+  DateRangePickerTrigger,
+  DateRangePickerContent,
+  DateRangePickerPresets,
+  DateRangePickerCalendar,
+  DateRangePickerFooter,
+};
+
 // Export types for external use
 export type { DateRange } from "react-day-picker";